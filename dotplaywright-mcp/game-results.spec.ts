@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { prisma } from '../src/lib/prisma';
+import { redis } from '../src/lib/redis';
+import { GameEngine } from '../src/lib/game-engine';
+import { DEADLINES_KEY, GameStore } from '../src/lib/game-store';
+
+// Plays a game through the engine against the Redis from REDIS_URL and the database from
+// DATABASE_URL directly; no browser involved.
+test.describe('Game results', () => {
+  test.beforeAll(() => {
+    GameStore.deadlinesKey = `test-deadlines-${randomUUID()}`;
+  });
+
+  test.afterAll(async () => {
+    await redis.del(GameStore.deadlinesKey);
+    GameStore.deadlinesKey = DEADLINES_KEY;
+    await redis.close();
+    await prisma.$disconnect();
+  });
+
+  test('should store every player, answer and final score, including writes that were lost', async () => {
+    const host = await prisma.user.create({
+      data: { email: `results-${randomUUID()}@example.com`, passwordHash: 'hash' }
+    });
+    const quiz = await prisma.quiz.create({
+      data: {
+        ownerId: host.id,
+        title: 'Capitals',
+        questions: {
+          create: [
+            { text: 'Capital of France?', type: 'MCQ', options: ['Paris', 'Rome'], correctOptionIndex: 0, order: 0 },
+            { text: 'Capital of Italy?', type: 'MCQ', options: ['Paris', 'Rome'], correctOptionIndex: 1, order: 1 }
+          ]
+        }
+      }
+    });
+    const { sessionId, joinCode } = await GameEngine.createSession(quiz.id, host.id);
+
+    try {
+      const { player: ann } = await GameEngine.joinSession(joinCode, 'Ann', randomUUID());
+      const { player: ben } = await GameEngine.joinSession(joinCode, 'Ben', randomUUID());
+      await GameEngine.startGame(joinCode);
+
+      // Ann gets the first question right, Ben the second
+      const scores = { [ann.id]: 0, [ben.id]: 0 };
+      for (const picks of [{ [ann.id]: 0, [ben.id]: 1 }, { [ann.id]: 0, [ben.id]: 1 }]) {
+        await GameEngine.nextQuestion(joinCode);
+        for (const [playerId, optionIndex] of Object.entries(picks)) {
+          scores[playerId] += (await GameEngine.submitAnswer(joinCode, playerId, { optionIndex })).score;
+        }
+      }
+
+      // As if Ben's last answer had failed to reach the database
+      const lost = await prisma.sessionAnswer.delete({ where: { playerId_questionIndex: { playerId: ben.id, questionIndex: 1 } } });
+      await prisma.sessionPlayer.update({ where: { id: ben.id }, data: { score: { decrement: lost.points } } });
+
+      // Moving past the last question ends the game
+      await GameEngine.nextQuestion(joinCode);
+
+      const session = await prisma.session.findUniqueOrThrow({
+        where: { id: sessionId },
+        include: { players: { include: { answers: { orderBy: { questionIndex: 'asc' } } } } }
+      });
+      expect(session.status).toBe('ENDED');
+
+      const players = Object.fromEntries(session.players.map(p => [p.nickname, p]));
+      expect(Object.keys(players).sort()).toEqual(['Ann', 'Ben']);
+      expect(players.Ann.score).toBe(scores[ann.id]);
+      expect(players.Ben.score).toBe(scores[ben.id]);
+      expect([players.Ann.rank, players.Ben.rank].sort()).toEqual([1, 2]);
+
+      expect(players.Ann.answers.map(a => [a.questionIndex, a.optionIndex, a.correct])).toEqual([[0, 0, true], [1, 0, false]]);
+      expect(players.Ben.answers.map(a => [a.questionIndex, a.optionIndex, a.correct])).toEqual([[0, 1, false], [1, 1, true]]);
+      expect(players.Ben.answers[1]).toMatchObject({ questionText: 'Capital of Italy?', points: lost.points, response: { optionIndex: 1 } });
+    } finally {
+      const keys = await redis.keys(`session:${joinCode}*`);
+      if (keys.length > 0) await redis.del(keys);
+      await prisma.session.delete({ where: { id: sessionId } });
+      await prisma.quiz.delete({ where: { id: quiz.id } });
+      await prisma.user.delete({ where: { id: host.id } });
+    }
+  });
+});
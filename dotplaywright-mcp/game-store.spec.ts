@@ -0,0 +1,293 @@
+import { test, expect } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { redis } from '../src/lib/redis';
+import { DEADLINES_KEY, GAME_IDLE_TTL_SECONDS, GameStore, SessionMeta } from '../src/lib/game-store';
+
+// Talks to the Redis from REDIS_URL directly; no browser involved.
+// Simulates a full class hitting the same game at once.
+const PLAYER_COUNT = 200;
+
+function newMeta(): SessionMeta {
+  return {
+    sessionId: randomUUID(),
+    quizId: 'quiz',
+    hostId: 'host',
+    hostToken: 'token',
+    status: 'WAITING',
+    mode: 'LIVE',
+    currentQuestionIndex: -1,
+    questionStartTime: null,
+    questionDeadline: null,
+    startTime: null,
+    teams: null,
+    opensAt: null,
+    closesAt: null
+  };
+}
+
+function newJoinCode(): string {
+  return `test-${randomUUID()}`;
+}
+
+async function cleanup(joinCode: string) {
+  const keys = await redis.keys(`session:${joinCode}*`);
+  if (keys.length > 0) await redis.del(keys);
+}
+
+test.describe('Game store concurrency', () => {
+  test.afterAll(async () => {
+    await redis.close();
+  });
+
+  test('should keep every player when they all join at once', async () => {
+    const joinCode = newJoinCode();
+    await GameStore.create(joinCode, newMeta(), []);
+
+    const ids = Array.from({ length: PLAYER_COUNT }, () => randomUUID());
+    const results = await Promise.all(ids.map(id =>
+      GameStore.addPlayer(joinCode, { id, nickname: `Player ${id.slice(0, 4)}`, token: 't' })
+    ));
+
+    expect(results.every(r => r === 'OK')).toBeTruthy();
+    const players = await GameStore.getPlayers(joinCode);
+    expect(Object.keys(players)).toHaveLength(PLAYER_COUNT);
+
+    await cleanup(joinCode);
+  });
+
+  test('should keep teams balanced when everyone joins at once', async () => {
+    const joinCode = newJoinCode();
+    await GameStore.create(joinCode, { ...newMeta(), teams: { names: ['Red', 'Blue', 'Green'], scoring: 'SUM', choice: false } }, []);
+
+    const ids = Array.from({ length: PLAYER_COUNT }, () => randomUUID());
+    await Promise.all(ids.map(id => GameStore.addPlayer(joinCode, { id, nickname: id, token: 't' })));
+
+    const sizes = [0, 0, 0];
+    Object.values(await GameStore.getPlayers(joinCode)).forEach(player => sizes[player.team ?? -1]++);
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBe(PLAYER_COUNT);
+    expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+
+    await cleanup(joinCode);
+  });
+
+  test('should not lose answers or scores when everyone answers in the same instant', async () => {
+    const joinCode = newJoinCode();
+    const meta = newMeta();
+    await GameStore.create(joinCode, meta, []);
+
+    const ids = Array.from({ length: PLAYER_COUNT }, () => randomUUID());
+    await Promise.all(ids.map(id => GameStore.addPlayer(joinCode, { id, nickname: id, token: 't' })));
+    await GameStore.compareAndSet(joinCode, { status: 'WAITING' }, {
+      status: 'SHOWING_QUESTION',
+      currentQuestionIndex: 0,
+      questionStartTime: Date.now(),
+      questionDeadline: Date.now() + 30000
+    });
+
+    // Every player answers twice concurrently; only the first answer may count
+    const submissions = ids.flatMap(id => [0, 1].map(optionIndex =>
+      GameStore.recordAnswer(joinCode, 0, {
+        playerId: id,
+        optionIndex,
+        responseTimeMs: 100,
+        correct: true,
+        points: 1000,
+        breakdown: { base: 600, speedBonus: 300, streakBonus: 100, total: 1000 },
+        streak: 1
+      }, { count: 1, questionIndex: 0 }, Date.now(), 500)
+    ));
+    const results = await Promise.all(submissions);
+
+    expect(results.filter(r => r.status === 'OK')).toHaveLength(PLAYER_COUNT);
+    expect(results.filter(r => r.status === 'ALREADY_ANSWERED')).toHaveLength(PLAYER_COUNT);
+
+    const answers = await GameStore.getAnswers(joinCode, 0);
+    expect(Object.keys(answers)).toHaveLength(PLAYER_COUNT);
+
+    const players = await GameStore.getPlayers(joinCode);
+    expect(Object.values(players).every(p => p.score === 1000)).toBeTruthy();
+    expect(Object.values(players).every(p => p.speedBonus === 300 && p.streakBonus === 100)).toBeTruthy();
+    expect(Object.keys(await GameStore.getStreaks(joinCode))).toHaveLength(PLAYER_COUNT);
+
+    const finalCount = results.find(r => r.status === 'OK' && r.answerCount === PLAYER_COUNT);
+    expect(finalCount).toBeDefined();
+
+    await cleanup(joinCode);
+  });
+
+  test('should not let a join racing the start resurrect the lobby', async () => {
+    const joinCode = newJoinCode();
+    await GameStore.create(joinCode, newMeta(), []);
+
+    const ids = Array.from({ length: PLAYER_COUNT }, () => randomUUID());
+    const joins = ids.map(id => GameStore.addPlayer(joinCode, { id, nickname: id, token: 't' }));
+    const start = GameStore.compareAndSet(joinCode, { status: 'WAITING' }, { status: 'ACTIVE' });
+    const [started, ...results] = await Promise.all([start, ...joins]);
+
+    expect(started).toBeTruthy();
+    expect((await GameStore.getMeta(joinCode))?.status).toBe('ACTIVE');
+
+    // Exactly the joins that were accepted are in the game
+    const accepted = results.filter(r => r === 'OK').length;
+    expect(results.filter(r => r !== 'OK').every(r => r === 'STARTED')).toBeTruthy();
+    expect(Object.keys(await GameStore.getPlayers(joinCode))).toHaveLength(accepted);
+
+    await cleanup(joinCode);
+  });
+
+  test('should reject answers after the deadline and for closed questions', async () => {
+    const joinCode = newJoinCode();
+    await GameStore.create(joinCode, { ...newMeta(), status: 'SHOWING_QUESTION', currentQuestionIndex: 0, questionDeadline: 1000 }, []);
+
+    const answer = {
+      playerId: 'p1',
+      optionIndex: 0,
+      responseTimeMs: 0,
+      correct: false,
+      points: 0,
+      breakdown: { base: 0, speedBonus: 0, streakBonus: 0, total: 0 },
+      streak: 0
+    };
+    const streak = { count: 0, questionIndex: 0 };
+    expect((await GameStore.recordAnswer(joinCode, 0, answer, streak, 2000, 500)).status).toBe('LATE');
+    expect((await GameStore.recordAnswer(joinCode, 1, answer, streak, 900, 500)).status).toBe('CLOSED');
+    expect(await GameStore.getStreak(joinCode, 'p1')).toBeNull();
+
+    await cleanup(joinCode);
+  });
+
+  test('should let assignment players each answer their own question, once it is handed out', async () => {
+    const joinCode = newJoinCode();
+    const now = Date.now();
+    await GameStore.create(joinCode, {
+      ...newMeta(), status: 'ACTIVE', mode: 'ASSIGNMENT', opensAt: now - 1000, closesAt: now + 60 * 60 * 1000
+    }, []);
+    await GameStore.addPlayer(joinCode, { id: 'p1', nickname: 'Ahead', token: 't' });
+    await GameStore.addPlayer(joinCode, { id: 'p2', nickname: 'Behind', token: 't' });
+
+    // Two requests to move on from the same question; only one may advance
+    const progress = { questionIndex: 0, startTime: now, deadline: now + 30000 };
+    const advances = await Promise.all([0, 1].map(() => GameStore.advanceProgress(joinCode, 'p1', -1, progress)));
+    expect(advances.sort()).toEqual(['CHANGED', 'OK']);
+
+    const answer = {
+      playerId: 'p1',
+      optionIndex: 0,
+      responseTimeMs: 100,
+      correct: true,
+      points: 1000,
+      breakdown: { base: 1000, speedBonus: 0, streakBonus: 0, total: 1000 },
+      streak: 1
+    };
+    const streak = { count: 1, questionIndex: 0 };
+    expect((await GameStore.recordAnswer(joinCode, 1, answer, streak, now, 500)).status).toBe('CLOSED');
+    expect((await GameStore.recordAnswer(joinCode, 0, answer, streak, now + 40000, 500)).status).toBe('LATE');
+    expect((await GameStore.recordAnswer(joinCode, 0, answer, streak, now, 500)).status).toBe('OK');
+
+    // A player who hasn't been handed a question can't answer one
+    expect((await GameStore.recordAnswer(joinCode, 0, { ...answer, playerId: 'p2' }, streak, now, 500)).status).toBe('CLOSED');
+
+    // The state outlives the idle expiry until the assignment closes
+    expect(await redis.ttl(`session:${joinCode}`)).toBeGreaterThan(GAME_IDLE_TTL_SECONDS);
+
+    await cleanup(joinCode);
+  });
+
+  test('should only hand out a join code again once its game has ended', async () => {
+    const joinCode = newJoinCode();
+    expect(await GameStore.create(joinCode, newMeta(), [])).toBeTruthy();
+    await GameStore.addPlayer(joinCode, { id: 'p1', nickname: 'Old', token: 't' });
+
+    // A live game keeps its code
+    expect(await GameStore.create(joinCode, newMeta(), [])).toBeFalsy();
+    expect(Object.keys(await GameStore.getPlayers(joinCode))).toEqual(['p1']);
+
+    // Once it has ended the code is recycled with a clean slate
+    await GameStore.compareAndSet(joinCode, {}, { status: 'ENDED' });
+    const meta = newMeta();
+    expect(await GameStore.create(joinCode, meta, [])).toBeTruthy();
+    expect((await GameStore.getMeta(joinCode))?.sessionId).toBe(meta.sessionId);
+    expect(await GameStore.getPlayers(joinCode)).toEqual({});
+
+    await cleanup(joinCode);
+  });
+
+  test('should number duplicate nicknames and keep banned players out', async () => {
+    const joinCode = newJoinCode();
+    await GameStore.create(joinCode, { ...newMeta(), status: 'SHOWING_QUESTION', currentQuestionIndex: 0 }, []);
+    await GameStore.addPlayer(joinCode, { id: 'p1', nickname: 'Sam', token: 't', deviceId: 'd1' });
+    await GameStore.addPlayer(joinCode, { id: 'p2', nickname: 'sam', token: 't', deviceId: 'd2' });
+    await GameStore.addPlayer(joinCode, { id: 'p3', nickname: 'SAM', token: 't', deviceId: 'd3' });
+
+    let players = await GameStore.getPlayers(joinCode);
+    expect([players.p1.nickname, players.p2.nickname, players.p3.nickname]).toEqual(['Sam', 'sam 2', 'SAM 3']);
+
+    const answer = {
+      playerId: 'p2',
+      optionIndex: 0,
+      responseTimeMs: 100,
+      correct: true,
+      points: 1000,
+      breakdown: { base: 1000, speedBonus: 0, streakBonus: 0, total: 1000 },
+      streak: 1
+    };
+    await GameStore.recordAnswer(joinCode, 0, answer, { count: 1, questionIndex: 0 }, Date.now(), 500);
+
+    // Removing a player takes their answer with them, so they aren't counted as answered
+    expect(await GameStore.removePlayer(joinCode, 'p2', true)).toEqual({ status: 'OK', answerCount: 0, playerCount: 2 });
+    expect(await GameStore.getAnswers(joinCode, 0)).toEqual({});
+    expect((await GameStore.recordAnswer(joinCode, 0, answer, null, Date.now(), 500)).status).toBe('NOT_JOINED');
+    expect((await GameStore.removePlayer(joinCode, 'p2', true)).status).toBe('NOT_FOUND');
+
+    // A kick frees the nickname; a ban keeps out the device under any name, and the name on any device
+    await GameStore.removePlayer(joinCode, 'p3', false);
+    await GameStore.compareAndSet(joinCode, {}, { status: 'WAITING' });
+    expect(await GameStore.addPlayer(joinCode, { id: 'p4', nickname: 'Someone else', token: 't', deviceId: 'd2' })).toBe('BANNED');
+    expect(await GameStore.addPlayer(joinCode, { id: 'p5', nickname: ' SAM ', token: 't', deviceId: 'd9' })).toBe('BANNED');
+    expect(await GameStore.addPlayer(joinCode, { id: 'p6', nickname: 'Sam 3', token: 't', deviceId: 'd3' })).toBe('OK');
+    players = await GameStore.getPlayers(joinCode);
+    expect(players.p6.nickname).toBe('Sam 3');
+
+    // Players without a device id can still be banned by name
+    await GameStore.addPlayer(joinCode, { id: 'p7', nickname: 'Jo', token: 't' });
+    await GameStore.removePlayer(joinCode, 'p7', true);
+    expect(await GameStore.addPlayer(joinCode, { id: 'p8', nickname: 'jo', token: 't', deviceId: 'd10' })).toBe('BANNED');
+
+    await cleanup(joinCode);
+  });
+
+  test('should hand each question deadline to exactly one instance', async () => {
+    const joinCode = newJoinCode();
+    // A schedule of its own, out of reach of a running dev server that also claims due deadlines
+    GameStore.deadlinesKey = `test-deadlines-${randomUUID()}`;
+    await GameStore.scheduleDeadline(joinCode, 0, 1000);
+    await GameStore.scheduleDeadline(joinCode, 1, 2000);
+    await GameStore.scheduleDeadline(joinCode, 2, 3000);
+
+    const claims = await Promise.all(Array.from({ length: 10 }, () => GameStore.claimDueDeadlines(2000)));
+    expect(claims.flat().sort((a, b) => a.questionIndex - b.questionIndex)).toEqual([
+      { joinCode, questionIndex: 0 },
+      { joinCode, questionIndex: 1 }
+    ]);
+
+    const direct = await Promise.all([GameStore.claimDeadline(joinCode, 2), GameStore.claimDeadline(joinCode, 2)]);
+    expect(direct.filter(Boolean)).toHaveLength(1);
+
+    await redis.del(GameStore.deadlinesKey);
+    GameStore.deadlinesKey = DEADLINES_KEY;
+  });
+
+  test('should expire idle session state', async () => {
+    const joinCode = newJoinCode();
+    await GameStore.create(joinCode, newMeta(), []);
+    await GameStore.addPlayer(joinCode, { id: 'p1', nickname: 'Player', token: 't' });
+
+    for (const key of await redis.keys(`session:${joinCode}*`)) {
+      const ttl = await redis.ttl(key);
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(GAME_IDLE_TTL_SECONDS);
+    }
+
+    await cleanup(joinCode);
+  });
+});
@@ -0,0 +1,17 @@
+import { test, expect } from '@playwright/test';
+import { isNicknameAllowed } from '../src/lib/nicknames';
+
+// Plain function checks; no server or browser involved.
+test.describe('Nickname filter', () => {
+  test('should let names that merely contain a blocked word join', () => {
+    for (const nickname of ['Matsushita', 'Shitake', 'Penistone', 'Scunthorpe', 'Dickens', 'Cocker', 'Titan', 'Classy']) {
+      expect(isNicknameAllowed(nickname), nickname).toBeTruthy();
+    }
+  });
+
+  test('should refuse blocked words however they are written', () => {
+    for (const nickname of ['fuck', 'Fucking', 'fuuuck', '5h1t', 'f u c k', 'Big Whores', 'A$$', 'dick', 'nazis']) {
+      expect(isNicknameAllowed(nickname), nickname).toBeFalsy();
+    }
+  });
+});
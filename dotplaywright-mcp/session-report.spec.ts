@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { prisma } from '../src/lib/prisma';
+import { buildSessionReport } from '../src/lib/session-report';
+
+// Talks to the database from DATABASE_URL directly; no browser involved.
+test.describe('Session report', () => {
+  test.afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  test('should leave polls and word clouds out of accuracy and correct rates', async () => {
+    const host = await prisma.user.create({
+      data: { email: `report-${randomUUID()}@example.com`, passwordHash: 'hash' }
+    });
+    const quiz = await prisma.quiz.create({
+      data: {
+        ownerId: host.id,
+        title: 'Mixed quiz',
+        questions: {
+          create: [
+            { text: 'Capital of France?', type: 'MCQ', options: ['Paris', 'Rome'], correctOptionIndex: 0, order: 0 },
+            { text: 'Favourite season?', type: 'POLL', options: ['Summer', 'Winter'], correctOptionIndex: 0, order: 1 },
+            { text: 'One word for today', type: 'WORD_CLOUD', options: [], correctOptionIndex: 0, order: 2 },
+            { text: 'Is water wet?', type: 'TRUE_FALSE', options: ['True', 'False'], correctOptionIndex: 0, order: 3 }
+          ]
+        }
+      },
+      include: { questions: { orderBy: { order: 'asc' } } }
+    });
+    const session = await prisma.session.create({
+      data: { joinCode: '000000', quizId: quiz.id, hostId: host.id, status: 'ENDED' }
+    });
+
+    try {
+      // Sam gets both scored questions right, Alex only the first; both answer the poll and the word cloud
+      const results = { Sam: [true, false, false, true], Alex: [true, false, false, false] };
+      for (const [nickname, correct] of Object.entries(results)) {
+        const player = await prisma.sessionPlayer.create({
+          data: { id: randomUUID(), sessionId: session.id, nickname }
+        });
+        await prisma.sessionAnswer.createMany({
+          data: quiz.questions.map((q, index) => ({
+            sessionId: session.id,
+            playerId: player.id,
+            questionId: q.id,
+            questionIndex: index,
+            questionText: q.text,
+            questionOptions: q.options,
+            optionIndex: q.type === 'WORD_CLOUD' ? null : 0,
+            response: q.type === 'WORD_CLOUD' ? 'sunny' : 0,
+            correct: correct[index],
+            responseTimeMs: 1000,
+            points: correct[index] ? 1000 : 0
+          }))
+        });
+      }
+
+      const report = await buildSessionReport(session.id, host.id);
+      expect(report).not.toBeNull();
+
+      const accuracy = Object.fromEntries(report!.players.map(p => [p.nickname, p.accuracy]));
+      expect(accuracy).toEqual({ Sam: 1, Alex: 0.5 });
+
+      expect(report!.questions.map(q => q.scored)).toEqual([true, false, false, true]);
+      expect(report!.questions.map(q => q.correctRate)).toEqual([1, null, null, 0.5]);
+      expect(report!.questions.map(q => q.answerCount)).toEqual([2, 2, 2, 2]);
+    } finally {
+      await prisma.session.delete({ where: { id: session.id } });
+      await prisma.quiz.delete({ where: { id: quiz.id } });
+      await prisma.user.delete({ where: { id: host.id } });
+    }
+  });
+});
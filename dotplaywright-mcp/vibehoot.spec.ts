@@ -1,4 +1,15 @@
-import { test, expect, Browser } from '@playwright/test';
+import { test, expect, Browser, Page } from '@playwright/test';
+import { io } from 'socket.io-client';
+
+// Registers a fresh host account; the session cookie lands in the page's browser context
+async function signUpHost(page: Page): Promise<string> {
+  const email = `host-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`;
+  const res = await page.request.post('/api/auth/signup', {
+    data: { email, password: 'password123' }
+  });
+  expect(res.ok()).toBeTruthy();
+  return email;
+}
 
 test.describe('Vibehoot App', () => {
 
@@ -13,6 +24,7 @@ test.describe('Vibehoot App', () => {
     });
 
     test('should navigate to host dashboard', async ({ page }) => {
+      await signUpHost(page);
       await page.goto('/');
       await page.getByRole('link', { name: 'Host a Game' }).click();
       await expect(page).toHaveURL('/host/dashboard');
@@ -46,7 +58,129 @@ test.describe('Vibehoot App', () => {
     });
   });
 
+  test.describe('Host Authentication', () => {
+    test('should redirect to login when not signed in', async ({ page }) => {
+      await page.goto('/host/dashboard');
+      await expect(page).toHaveURL(/\/host\/login/);
+      await expect(page.getByPlaceholder('Email')).toBeVisible();
+      await expect(page.getByPlaceholder('Password')).toBeVisible();
+    });
+
+    test('should sign up and land on the dashboard', async ({ page }) => {
+      const email = `host-${Date.now()}@example.com`;
+      await page.goto('/host/login');
+      await page.getByRole('button', { name: 'No account yet? Sign up' }).click();
+      await page.getByPlaceholder('Email').fill(email);
+      await page.getByPlaceholder('Password').fill('password123');
+      await page.getByRole('button', { name: 'Sign Up' }).click();
+
+      await expect(page).toHaveURL('/host/dashboard');
+      await expect(page.getByText(email)).toBeVisible();
+    });
+
+    test('should reject quiz API calls without a session', async ({ request }) => {
+      const res = await request.get('/api/quizzes');
+      expect(res.status()).toBe(401);
+    });
+
+    test('should only show quizzes to their owner', async ({ browser }) => {
+      const ownerContext = await browser.newContext();
+      const ownerPage = await ownerContext.newPage();
+      await signUpHost(ownerPage);
+
+      const created = await ownerPage.request.post('/api/quizzes', {
+        data: {
+          title: 'Private Quiz',
+          questions: [{ text: 'Q?', type: 'MCQ', timeLimit: 20, options: ['A', 'B'], correctOptionIndex: 0 }]
+        }
+      });
+      expect(created.ok()).toBeTruthy();
+      const quiz = await created.json();
+
+      const otherContext = await browser.newContext();
+      const otherPage = await otherContext.newPage();
+      await signUpHost(otherPage);
+
+      const list = await otherPage.request.get('/api/quizzes');
+      expect((await list.json()).find((q: { id: string }) => q.id === quiz.id)).toBeUndefined();
+      expect((await otherPage.request.get(`/api/quizzes/${quiz.id}`)).status()).toBe(404);
+      expect((await otherPage.request.delete(`/api/quizzes/${quiz.id}`)).status()).toBe(404);
+
+      await ownerPage.request.delete(`/api/quizzes/${quiz.id}`);
+      await ownerContext.close();
+      await otherContext.close();
+    });
+  });
+
+  test.describe('Game Control Authorization', () => {
+    test('should reject control events from sockets without the host credential', async () => {
+      const socket = io('http://localhost:3000');
+
+      for (const event of ['start_game', 'next_question', 'show_results', 'get_leaderboard']) {
+        const res = await new Promise(resolve => socket.emit(event, { joinCode: '123456', hostToken: 'guess' }, resolve));
+        expect(res).toEqual({ success: false, error: 'Not authorized' });
+      }
+
+      const created = await new Promise(resolve => socket.emit('create_game', { quizId: 'any' }, resolve));
+      expect(created).toEqual({ success: false, error: 'Not authorized' });
+
+      socket.disconnect();
+    });
+
+    test('should answer malformed payloads with validation errors', async () => {
+      const socket = io('http://localhost:3000');
+
+      const res = await new Promise(resolve => socket.emit('join_game', { joinCode: 'abc', nickname: '', deviceId: 'device' }, resolve));
+      expect(res).toMatchObject({
+        success: false,
+        error: 'Invalid join_game payload',
+        issues: [
+          { path: 'joinCode', message: 'Join code must be 6 digits' },
+          { path: 'nickname' }
+        ]
+      });
+      // Without a device id a ban could be dodged
+      const anonymous = await new Promise(resolve => socket.emit('join_game', { joinCode: '123456', nickname: 'Sam' }, resolve));
+      expect(anonymous).toMatchObject({ success: false, issues: [{ path: 'deviceId' }] });
+
+      // A handler without a payload or acknowledgement must not take the server down
+      socket.emit('submit_answer');
+      const after = await new Promise(resolve => socket.emit('start_game', null, resolve));
+      expect(after).toMatchObject({ success: false, error: 'Invalid start_game payload' });
+
+      socket.disconnect();
+    });
+
+    test('should validate team settings and only let joined players pick a team', async () => {
+      const socket = io('http://localhost:3000');
+
+      const teams = { names: ['Red', 'Red'], scoring: 'MEDIAN', choice: true };
+      const res = await new Promise(resolve => socket.emit('create_game', { quizId: 'any', teams }, resolve));
+      expect(res).toMatchObject({
+        success: false,
+        error: 'Invalid create_game payload',
+        issues: [
+          { path: 'teams.names', message: 'Team names must be different' },
+          { path: 'teams.scoring' }
+        ]
+      });
+
+      const tooFew = await new Promise(resolve =>
+        socket.emit('create_game', { quizId: 'any', teams: { names: ['Solo'], scoring: 'SUM', choice: false } }, resolve));
+      expect(tooFew).toMatchObject({ success: false, issues: [{ path: 'teams.names' }] });
+
+      const chosen = await new Promise(resolve => socket.emit('choose_team', { joinCode: '123456', team: 0 }, resolve));
+      expect(chosen).toEqual({ success: false, error: 'Not joined to this game' });
+
+      socket.disconnect();
+    });
+  });
+
   test.describe('Host Dashboard', () => {
+    test.beforeEach(async ({ page }) => {
+      await signUpHost(page);
+    });
+
     test('should display dashboard with header and create button', async ({ page }) => {
       await page.goto('/host/dashboard');
 
@@ -75,6 +209,10 @@ test.describe('Vibehoot App', () => {
   });
 
   test.describe('Create Quiz Page', () => {
+    test.beforeEach(async ({ page }) => {
+      await signUpHost(page);
+    });
+
     test('should display quiz creation form', async ({ page }) => {
       await page.goto('/host/create');
 
@@ -133,6 +271,23 @@ test.describe('Vibehoot App', () => {
       await expect(page.locator('input[value="What is a backlink?"]')).toBeVisible();
     });
 
+    test('should import and save true/false questions', async ({ page }) => {
+      await page.goto('/host/create');
+      await page.getByRole('button', { name: 'Import JSON' }).click();
+
+      const testJson = JSON.stringify([{ question: 'The sun is a star.', type: 'true_false', answer: true }]);
+      await page.getByPlaceholder('Quiz Title (required)').fill('True or False Quiz');
+      await page.locator('textarea').fill(testJson);
+      await page.getByRole('button', { name: 'Import Questions' }).click();
+
+      await expect(page.getByLabel('Question type')).toHaveValue('TRUE_FALSE');
+      await expect(page.getByText('True', { exact: true })).toBeVisible();
+      await expect(page.getByText('False', { exact: true })).toBeVisible();
+
+      await page.getByRole('button', { name: 'Save Quiz' }).click();
+      await expect(page).toHaveURL('/host/dashboard');
+    });
+
     test('should show error when title is missing', async ({ page }) => {
       await page.goto('/host/create');
       await page.getByRole('button', { name: 'Import JSON' }).click();
@@ -157,6 +312,244 @@ test.describe('Vibehoot App', () => {
       await expect(page.locator('text=Invalid JSON format')).toBeVisible();
     });
 
+    test('should show field errors from the server next to the fields', async ({ page }) => {
+      await page.goto('/host/create');
+      await page.getByPlaceholder('Question text?').fill('Half finished?');
+      await page.getByPlaceholder('Option 1').fill('Yes');
+      await page.getByRole('button', { name: 'Save Quiz' }).click();
+
+      await expect(page.getByText('Title is required')).toBeVisible();
+      await expect(page.getByText('Option 2: Option text is required')).toBeVisible();
+      await expect(page).toHaveURL('/host/create');
+    });
+
+    test('should reject invalid quizzes with per-field error paths', async ({ page }) => {
+      const res = await page.request.post('/api/quizzes', {
+        data: {
+          title: 'Broken Quiz',
+          questions: [
+            { text: 'Fine?', options: ['A', 'B'], correctOptionIndex: 1 },
+            { text: '', options: ['Only one'], correctOptionIndex: 0, timeLimit: 1, type: 'ESSAY' }
+          ]
+        }
+      });
+      expect(res.status()).toBe(400);
+
+      const paths = (await res.json()).issues.map((issue: { path: string }) => issue.path);
+      expect(paths).toEqual(expect.arrayContaining([
+        'questions.1.text',
+        'questions.1.options',
+        'questions.1.timeLimit',
+        'questions.1.type'
+      ]));
+      expect(paths.some((path: string) => path.startsWith('questions.0'))).toBeFalsy();
+    });
+
+    test('should only accept True and False as true/false options', async ({ page }) => {
+      const save = (options: string[]) => page.request.post('/api/quizzes', {
+        data: { title: 'TF', questions: [{ text: 'Water is wet.', type: 'TRUE_FALSE', options, correctOptionIndex: 0 }] }
+      });
+
+      expect((await save(['True', 'False'])).ok()).toBeTruthy();
+      const rejected = await save(['Yes', 'No', 'Maybe']);
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.options' }));
+    });
+
+    test('should require correct options among the choices for multi-select questions', async ({ page }) => {
+      const save = (config: unknown) => page.request.post('/api/quizzes', {
+        data: {
+          title: 'Multi',
+          questions: [{ text: 'Pick the primes', type: 'MULTI_SELECT', options: ['2', '3', '4', '5'], correctOptionIndex: 0, config }]
+        }
+      });
+
+      expect((await save({ correctOptionIndexes: [0, 1, 3], partialCredit: true })).ok()).toBeTruthy();
+      const rejected = await save({ correctOptionIndexes: [1, 4] });
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.config.correctOptionIndexes' }));
+    });
+
+    test('should save type-in questions without options but with accepted answers', async ({ page }) => {
+      const save = (config: unknown) => page.request.post('/api/quizzes', {
+        data: { title: 'Type-in', questions: [{ text: 'Capital of France?', type: 'TYPE_IN', config }] }
+      });
+
+      expect((await save({ acceptedAnswers: ['Paris'], maxTypos: 1 })).ok()).toBeTruthy();
+      const rejected = await save({ acceptedAnswers: [] });
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.config.acceptedAnswers' }));
+    });
+
+    test('should only accept slider answers that sit on a step of the range', async ({ page }) => {
+      const save = (config: unknown) => page.request.post('/api/quizzes', {
+        data: { title: 'Slider', questions: [{ text: 'Year the Berlin Wall fell?', type: 'SLIDER', config }] }
+      });
+
+      expect((await save({ min: 1950, max: 2000, step: 1, correctValue: 1989, scoring: 'DECAY', tolerance: 5 })).ok()).toBeTruthy();
+      const rejected = await save({ min: 0, max: 10, step: 3, correctValue: 5 });
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.config.correctValue' }));
+    });
+
+    test('should accept three to six ordering items with a complete correct order', async ({ page }) => {
+      const save = (options: string[], correctOrder: number[]) => page.request.post('/api/quizzes', {
+        data: { title: 'Ordering', questions: [{ text: 'Smallest first', type: 'ORDERING', options, config: { correctOrder } }] }
+      });
+
+      expect((await save(['Ant', 'Cat', 'Horse', 'Whale', 'Mouse'], [0, 4, 1, 2, 3])).ok()).toBeTruthy();
+      const rejected = await save(['Ant', 'Cat'], [0, 0]);
+      expect(rejected.status()).toBe(400);
+      const paths = (await rejected.json()).issues.map((issue: { path: string }) => issue.path);
+      expect(paths).toEqual(expect.arrayContaining(['questions.0.options', 'questions.0.config.correctOrder']));
+    });
+
+    test('should save polls and word clouds without a correct answer', async ({ page }) => {
+      const save = (questions: unknown[]) => page.request.post('/api/quizzes', { data: { title: 'Unscored', questions } });
+
+      expect((await save([
+        { text: 'Favourite season?', type: 'POLL', options: ['Spring', 'Summer', 'Autumn', 'Winter'] },
+        { text: 'One word for today', type: 'WORD_CLOUD', config: { participationPoints: 100 } }
+      ])).ok()).toBeTruthy();
+      const rejected = await save([{ text: 'One word for today', type: 'WORD_CLOUD', config: { participationPoints: 1000 } }]);
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.config.participationPoints' }));
+    });
+
+    test('should accept standard, double or no points per question', async ({ page }) => {
+      const save = (pointsMode: string) => page.request.post('/api/quizzes', {
+        data: { title: 'Points', questions: [{ text: 'Bonus round', options: ['A', 'B'], correctOptionIndex: 0, pointsMode, speedBonus: false }] }
+      });
+
+      expect((await save('DOUBLE')).ok()).toBeTruthy();
+      const rejected = await save('TRIPLE');
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.pointsMode' }));
+    });
+
+    test('should publish a quiz as an assignment players work through at their own pace', async ({ page }) => {
+      const created = await page.request.post('/api/quizzes', {
+        data: { title: 'Homework', questions: [{ text: '2 + 2?', options: ['3', '4'], correctOptionIndex: 1 }] }
+      });
+      const quiz = await created.json();
+      const now = Date.now();
+      const publish = (opensAt: number, closesAt: number) => page.request.post('/api/assignments', {
+        data: { quizId: quiz.id, opensAt: new Date(opensAt).toISOString(), closesAt: new Date(closesAt).toISOString() }
+      });
+
+      const rejected = await publish(now, now - 60 * 1000);
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'closesAt' }));
+
+      const published = await publish(now, now + 60 * 60 * 1000);
+      expect(published.ok()).toBeTruthy();
+      const { joinCode } = await published.json();
+
+      const socket = io('http://localhost:3000');
+      const emit = (event: string, payload: unknown) => new Promise(resolve => socket.emit(event, payload, resolve));
+
+      expect(await emit('join_game', { joinCode, nickname: 'Student', deviceId: 'student-device' })).toMatchObject({
+        success: true,
+        snapshot: { status: 'ACTIVE', assignment: { finished: false }, question: null }
+      });
+      expect(await emit('next_assignment_question', { joinCode })).toMatchObject({
+        success: true,
+        question: { questionIndex: 0, totalQuestions: 1, text: '2 + 2?' }
+      });
+      // Asking again hands out the same question rather than skipping it
+      expect(await emit('next_assignment_question', { joinCode })).toMatchObject({ question: { questionIndex: 0 } });
+
+      expect(await emit('submit_answer', { joinCode, optionIndex: 1 })).toMatchObject({ success: true, correct: true });
+      expect(await emit('next_assignment_question', { joinCode })).toEqual({ success: true, question: null });
+
+      socket.disconnect();
+    });
+
+    test('should serve uploaded images and only accept the host\'s own uploads in questions', async ({ page }) => {
+      // Smallest valid PNG: a single transparent pixel
+      const png = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+      const upload = await page.request.post('/api/uploads', {
+        multipart: { file: { name: 'pixel.png', mimeType: 'image/png', buffer: png } }
+      });
+      expect(upload.ok()).toBeTruthy();
+      const { id, url } = await upload.json();
+
+      const image = await page.request.get(url);
+      expect(image.headers()['content-type']).toBe('image/png');
+
+      const notAnImage = await page.request.post('/api/uploads', {
+        multipart: { file: { name: 'fake.png', mimeType: 'image/png', buffer: Buffer.from('<svg></svg>') } }
+      });
+      expect(notAnImage.status()).toBe(415);
+
+      const save = (imageId: string) => page.request.post('/api/quizzes', {
+        data: { title: 'Images', questions: [{ text: 'Who is this?', options: ['A', 'B'], correctOptionIndex: 0, imageId }] }
+      });
+      expect((await save(id)).ok()).toBeTruthy();
+      const rejected = await save('doesnotexist');
+      expect(rejected.status()).toBe(400);
+      expect((await rejected.json()).issues).toContainEqual(expect.objectContaining({ path: 'questions.0.imageId' }));
+    });
+
+    test('should keep every save as a revision that can be restored', async ({ page }) => {
+      const created = await (await page.request.post('/api/quizzes', {
+        data: { title: 'Capitals', questions: [{ text: 'Capital of France?', options: ['Paris', 'Rome'], correctOptionIndex: 0 }] }
+      })).json();
+      const [original] = created.questions;
+
+      // Sent back with its id, the question is updated in place instead of being replaced
+      const edited = await (await page.request.put(`/api/quizzes/${created.id}`, {
+        data: {
+          title: 'European capitals',
+          questions: [
+            { ...original, options: ['Paris', 'Rome', 'Berlin'], correctOptionIndex: 0 },
+            { text: 'Capital of Italy?', options: ['Paris', 'Rome'], correctOptionIndex: 1 }
+          ]
+        }
+      })).json();
+      expect(edited.questions[0].id).toBe(original.id);
+      expect(edited.revision.number).toBe(2);
+
+      const revisions = await (await page.request.get(`/api/quizzes/${created.id}/revisions`)).json();
+      expect(revisions.map((r: { number: number }) => r.number)).toEqual([2, 1]);
+      expect(revisions[0].diff).toMatchObject({
+        title: { before: 'Capitals', after: 'European capitals' },
+        added: [{ index: 1, text: 'Capital of Italy?' }],
+        changed: [{ id: original.id, fields: [{ field: 'Options', before: 'Paris, Rome', after: 'Paris, Rome, Berlin' }] }]
+      });
+
+      // Restoring saves the old content again as the newest revision
+      const restored = await page.request.post(`/api/quizzes/${created.id}/revisions/${revisions[1].id}/restore`);
+      expect(restored.ok()).toBeTruthy();
+      const quiz = await restored.json();
+      expect(quiz).toMatchObject({ title: 'Capitals', revision: { number: 3 } });
+      expect(quiz.questions).toHaveLength(1);
+      expect(quiz.questions[0]).toMatchObject({ id: original.id, options: ['Paris', 'Rome'] });
+
+      const history = await (await page.request.get(`/api/quizzes/${created.id}/revisions`)).json();
+      expect(history[0]).toMatchObject({ number: 3, restoredFrom: 1, diff: { removed: [{ index: 1, text: 'Capital of Italy?' }] } });
+
+      await page.goto(`/host/edit/${created.id}`);
+      await page.getByRole('button', { name: 'History' }).click();
+      await expect(page.getByText('Restored from version 1')).toBeVisible();
+    });
+
+    test('should number revisions in turn when saves arrive at once', async ({ page }) => {
+      const created = await (await page.request.post('/api/quizzes', {
+        data: { title: 'Rivers', questions: [{ text: 'Longest river?', options: ['Nile', 'Amazon'], correctOptionIndex: 0 }] }
+      })).json();
+
+      const saves = await Promise.all(['Danube', 'Rhine', 'Volga'].map(river =>
+        page.request.put(`/api/quizzes/${created.id}`, {
+          data: { title: 'Rivers', questions: [{ text: 'Longest river?', options: ['Nile', river], correctOptionIndex: 0 }] }
+        })
+      ));
+      expect(saves.every(save => save.ok())).toBeTruthy();
+
+      const revisions = await (await page.request.get(`/api/quizzes/${created.id}/revisions`)).json();
+      expect(revisions.map((r: { number: number }) => r.number)).toEqual([4, 3, 2, 1]);
+    });
+
     test('should close modal when clicking Cancel', async ({ page }) => {
       await page.goto('/host/create');
       await page.getByRole('button', { name: 'Import JSON' }).click();
@@ -177,6 +570,7 @@ test.describe('Vibehoot App', () => {
       // Step 1: Create a quiz with questions using host browser
       const hostContext = await browser.newContext();
       const hostPage = await hostContext.newPage();
+      await signUpHost(hostPage);
 
       await hostPage.goto('/host/create');
 
@@ -277,6 +671,11 @@ test.describe('Vibehoot App', () => {
       await expect(player1Page.locator('[class*="answerBtn"]').first()).toBeVisible({ timeout: 10000 });
       await expect(player2Page.locator('[class*="answerBtn"]').first()).toBeVisible({ timeout: 10000 });
 
+      // A player whose page reloads mid-question resumes straight into the question
+      await player1Page.reload();
+      await expect(player1Page.locator('[class*="answerBtn"]').first()).toBeVisible({ timeout: 10000 });
+      await expect(hostPage.getByText('0 / 2 answered')).toBeVisible();
+
       // Step 5: Both players submit answers (Player1 correct, Player2 wrong)
       // Answer buttons are in order: 0=red, 1=blue, 2=yellow, 3=green
       // Correct answer is index 1 (4), so click second button
@@ -287,14 +686,9 @@ test.describe('Vibehoot App', () => {
       await expect(player1Page.getByText('Correct!')).toBeVisible({ timeout: 10000 });
       await expect(player2Page.getByText('Wrong!')).toBeVisible({ timeout: 10000 });
 
-      // Host should see answer count
-      await expect(hostPage.getByText('2 / 2 answered')).toBeVisible({ timeout: 10000 });
-
-      // Step 6: Host skips timer and shows results
-      await hostPage.getByRole('button', { name: 'Skip Timer' }).click();
-
-      // Verify results view
+      // Step 6: With every answer in, the server closes the question without waiting for the timer
       await expect(hostPage.getByText('Results')).toBeVisible({ timeout: 10000 });
+      await expect(player1Page.getByText('Waiting for next question...')).toBeVisible({ timeout: 10000 });
 
       // Step 7: Host shows leaderboard
       await hostPage.getByRole('button', { name: 'Show Leaderboard' }).click();
@@ -310,17 +704,15 @@ test.describe('Vibehoot App', () => {
       await expect(hostPage.getByText('Question 2 of 2')).toBeVisible({ timeout: 10000 });
       await expect(hostPage.getByText('What color is the sky?')).toBeVisible();
 
-      // Both players answer (both correct this time)
+      // Only Player1 answers this time
       await player1Page.locator('[class*="answerBtn"]').nth(2).click(); // Blue (correct)
-      await player2Page.locator('[class*="answerBtn"]').nth(2).click(); // Blue (correct)
-
-      // Verify both correct
       await expect(player1Page.getByText('Correct!')).toBeVisible({ timeout: 10000 });
-      await expect(player2Page.getByText('Correct!')).toBeVisible({ timeout: 10000 });
+      await expect(hostPage.getByText('1 / 2 answered')).toBeVisible({ timeout: 10000 });
 
-      // Host ends the game
+      // Host closes the question early; Player2 is out of time
       await hostPage.getByRole('button', { name: 'Skip Timer' }).click();
       await expect(hostPage.getByText('Results')).toBeVisible({ timeout: 10000 });
+      await expect(player2Page.getByText("Time's up!")).toBeVisible({ timeout: 10000 });
 
       await hostPage.getByRole('button', { name: 'Show Leaderboard' }).click();
       await expect(hostPage.getByText('Leaderboard')).toBeVisible({ timeout: 10000 });
@@ -335,6 +727,22 @@ test.describe('Vibehoot App', () => {
       await expect(player1Page.getByText('Game Over!')).toBeVisible({ timeout: 10000 });
       await expect(player2Page.getByText('Game Over!')).toBeVisible({ timeout: 10000 });
 
+      // Step 9: The host opens the persisted report and exports it
+      await hostPage.getByRole('link', { name: 'View Full Report' }).click();
+      await hostPage.waitForURL(/\/host\/sessions\//, { timeout: 10000 });
+      await expect(hostPage.getByRole('cell', { name: 'Player1' })).toBeVisible({ timeout: 10000 });
+      await expect(hostPage.getByRole('cell', { name: 'What is 2 + 2?' })).toBeVisible();
+
+      const sessionId = hostPage.url().match(/\/host\/sessions\/([^/]+)/)?.[1] || '';
+      const csv = await hostPage.request.get(`/api/sessions/${sessionId}/export?format=csv`);
+      expect(csv.ok()).toBeTruthy();
+      const csvText = await csv.text();
+      expect(csvText).toContain('Q1 answer');
+      expect(csvText).toContain('Player1');
+
+      const xlsx = await hostPage.request.get(`/api/sessions/${sessionId}/export?format=xlsx`);
+      expect(xlsx.headers()['content-type']).toContain('spreadsheetml');
+
       // Close player contexts
       await player1Context.close();
       await player2Context.close();
@@ -346,5 +754,56 @@ test.describe('Vibehoot App', () => {
 
       await hostContext.close();
     });
+
+    test('should let a phone controller drive the projector display', async ({ browser }) => {
+      test.setTimeout(60000);
+
+      const hostContext = await browser.newContext();
+      const hostPage = await hostContext.newPage();
+      await signUpHost(hostPage);
+      const created = await hostPage.request.post('/api/quizzes', {
+        data: { title: 'Two Screens', questions: [{ text: 'Pick B', options: ['A', 'B'], correctOptionIndex: 1 }] }
+      });
+      const quiz = await created.json();
+
+      await hostPage.goto(`/host/game/${quiz.id}`);
+      const joinCodeLocator = hostPage.locator('[class*="joinCode"]');
+      await expect(joinCodeLocator).toHaveText(/^\d{6}$/, { timeout: 10000 });
+      const joinCode = (await joinCodeLocator.textContent()) || '';
+
+      // Only the host's own account may open the other screens
+      const stranger = io('http://localhost:3000');
+      const watched = await new Promise(resolve => stranger.emit('watch_game', { joinCode }, resolve));
+      expect(watched).toEqual({ success: false, error: 'Not authorized' });
+      const joined = await new Promise(resolve => stranger.emit('join_game', { joinCode, nickname: 'Viewer', deviceId: 'viewer-device' }, resolve));
+      expect(joined).toMatchObject({ success: true });
+
+      const displayPage = await hostContext.newPage();
+      await displayPage.goto(`/host/display/${joinCode}`);
+      await expect(displayPage.getByText('Viewer')).toBeVisible({ timeout: 10000 });
+      await expect(displayPage.getByRole('button', { name: 'Start Game' })).toHaveCount(0);
+
+      const controlPage = await hostContext.newPage();
+      await controlPage.setViewportSize({ width: 390, height: 844 });
+      await controlPage.goto(`/host/control/${joinCode}`);
+      await controlPage.getByRole('button', { name: 'Start Game' }).click();
+
+      // Every screen follows the controller
+      await expect(displayPage.getByText('Question 1 of 1')).toBeVisible({ timeout: 10000 });
+      await expect(hostPage.getByText('Question 1 of 1')).toBeVisible({ timeout: 10000 });
+      await expect(displayPage.getByRole('button', { name: 'Skip Timer' })).toHaveCount(0);
+
+      await controlPage.getByRole('button', { name: 'Skip Timer' }).click();
+      await expect(displayPage.getByRole('heading', { name: 'Results' })).toBeVisible({ timeout: 10000 });
+      await controlPage.getByRole('button', { name: 'Show Leaderboard' }).click();
+      await expect(displayPage.getByRole('heading', { name: 'Leaderboard' })).toBeVisible({ timeout: 10000 });
+      await controlPage.getByRole('button', { name: 'End Game' }).click();
+      await expect(displayPage.getByText('Game Over!')).toBeVisible({ timeout: 10000 });
+      await expect(controlPage.getByRole('link', { name: 'View Full Report' })).toBeVisible({ timeout: 10000 });
+
+      stranger.disconnect();
+      await hostPage.request.delete(`/api/quizzes/${quiz.id}`);
+      await hostContext.close();
+    });
   });
 });
@@ -2,158 +2,296 @@ import "dotenv/config";
 import { createServer } from "http";
 import next from "next";
 import { Server } from "socket.io";
-import { GameEngine } from "./src/lib/game-engine";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { GameEngine, playerImages } from "./src/lib/game-engine";
+import { getUserIdFromCookieHeader } from "./src/lib/auth";
+import { redis } from "./src/lib/redis";
+import { sliderRange } from "./src/lib/grading";
+import {
+    ClientAckData,
+    ClientEvent,
+    ClientPayload,
+    ClientToServerEvents,
+    InterServerEvents,
+    parsePayload,
+    PayloadValidationError,
+    ServerToClientEvents,
+    SocketData,
+    toAnswerResult,
+    toErrorResponse
+} from "./src/lib/socket-protocol";
 
 const dev = process.env.NODE_ENV !== "production";
 const hostname = "localhost";
-const port = 3000;
+const port = Number(process.env.PORT) || 3000;
 const app = next({ dev, hostname, port });
+const SESSION_CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+const OVERDUE_QUESTION_CHECK_INTERVAL_MS = 1000;
 const handler = app.getRequestHandler();
 
-app.prepare().then(() => {
+// Only the host's own screens are in this room; players never join it
+const hostRoom = (joinCode: string) => `${joinCode}:host`;
+
+app.prepare().then(async () => {
     const httpServer = createServer(handler);
 
-    const io = new Server(httpServer, {
+    // Broadcasts go through Redis, so rooms span every instance sharing it
+    const subClient = redis.duplicate();
+    subClient.on("error", (err) => console.log("Redis Subscriber Error", err));
+    await subClient.connect();
+
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(httpServer, {
         cors: {
             origin: "*",
             methods: ["GET", "POST"]
+        },
+        adapter: createAdapter(redis, subClient)
+    });
+
+    // Questions close on the server (timer, all answers in, or host skip); broadcast the results
+    GameEngine.onQuestionClosed((joinCode, results) => {
+        io.to(joinCode).emit("question_results", results);
+    });
+
+    // Identify signed-in hosts from the session cookie; players connect anonymously
+    io.use(async (socket, next) => {
+        try {
+            socket.data.userId = await getUserIdFromCookieHeader(socket.handshake.headers.cookie);
+            next();
+        } catch (e) {
+            console.error(e);
+            next(new Error("Authentication failed"));
         }
     });
 
     io.on("connection", (socket) => {
         console.log("Client connected", socket.id);
 
+        // Registers a client event: the payload is validated first, and whatever the handler
+        // returns or throws is sent back as the acknowledgement
+        const handle = <E extends ClientEvent>(event: E, handler: (payload: ClientPayload<E>) => Promise<ClientAckData[E]>) => {
+            const listener = async (payload: unknown, callback: unknown) => {
+                const ack = typeof callback === "function" ? callback : () => {};
+                try {
+                    const data = await handler(parsePayload(event, payload));
+                    ack({ success: true, ...data });
+                } catch (e) {
+                    if (e instanceof PayloadValidationError) {
+                        console.warn(`Rejected ${event} from socket ${socket.id}`, e.issues);
+                    } else {
+                        console.error(e);
+                    }
+                    ack(toErrorResponse(e));
+                }
+            };
+            socket.on(event, listener as unknown as Parameters<typeof socket.on<E>>[1]);
+        };
+
+        // Rejects control events that don't carry the session's host credential
+        const requireHost = async (event: ClientEvent, joinCode: string, hostToken: string) => {
+            const authorized = await GameEngine.verifyHost(joinCode, hostToken, socket.data.userId ?? undefined);
+            if (!authorized) {
+                console.warn(`Unauthorized ${event} for game ${joinCode} from socket ${socket.id} (user: ${socket.data.userId || "anonymous"})`);
+                throw new Error("Not authorized");
+            }
+        };
+
         // Host creates a game
-        socket.on("create_game", async ({ quizId, hostId }, callback) => {
-            try {
-                console.log("Creating game", quizId, hostId);
-                const joinCode = await GameEngine.createSession(quizId, hostId);
-                socket.join(joinCode); // Host joins the room
-                callback({ success: true, joinCode });
-            } catch (e: any) {
-                console.error(e);
-                callback({ success: false, error: e.message });
+        handle("create_game", async ({ quizId, teams }) => {
+            const hostId = socket.data.userId;
+            if (!hostId) {
+                console.warn(`Unauthorized create_game from socket ${socket.id}`);
+                throw new Error("Not authorized");
             }
+
+            console.log("Creating game", quizId, hostId);
+            const { joinCode, hostToken } = await GameEngine.createSession(quizId, hostId, { teams });
+            socket.join([joinCode, hostRoom(joinCode)]); // Host joins the room
+            return { joinCode, hostToken };
         });
 
-        // Player joins a game
-        socket.on("join_game", async ({ joinCode, nickname, playerId }, callback) => {
-            try {
-                console.log("Joining game", joinCode, nickname);
-                const state = await GameEngine.joinSession(joinCode, nickname, playerId);
-                socket.join(joinCode); // Player joins the room
-                socket.data.joinCode = joinCode;
-                socket.data.playerId = playerId;
-
-                // Notify host and other players
-                io.to(joinCode).emit("player_joined", { playerId, nickname, score: 0 });
-
-                callback({ success: true, state });
-            } catch (e: any) {
-                console.error(e);
-                callback({ success: false, error: e.message });
+        // Host opens the game on another screen, or comes back to it after a reload
+        handle("watch_game", async ({ joinCode }) => {
+            const attached = socket.data.userId ? await GameEngine.attachHost(joinCode, socket.data.userId) : null;
+            if (!attached) {
+                console.warn(`Unauthorized watch_game for game ${joinCode} from socket ${socket.id} (user: ${socket.data.userId || "anonymous"})`);
+                throw new Error("Not authorized");
             }
+
+            socket.join([joinCode, hostRoom(joinCode)]);
+            return attached;
+        });
+
+        // Player joins a game
+        handle("join_game", async ({ joinCode, nickname, deviceId }) => {
+            console.log("Joining game", joinCode, nickname);
+            const { player, snapshot } = await GameEngine.joinSession(joinCode, nickname, deviceId);
+            socket.join(joinCode); // Player joins the room
+            socket.data.joinCode = joinCode;
+            socket.data.playerId = player.id;
+
+            // Notify host and other players
+            io.to(joinCode).emit("player_joined", { id: player.id, nickname: player.nickname, score: 0, team: player.team });
+
+            // The token lets the device resume this player after a disconnect
+            return { playerId: player.id, playerToken: player.token, snapshot };
+        });
+
+        // Player returns after a disconnect or page reload
+        handle("rejoin_game", async ({ joinCode, playerId, playerToken }) => {
+            console.log("Rejoining game", joinCode, playerId);
+            const { player, snapshot } = await GameEngine.resumeSession(joinCode, playerId, playerToken);
+            socket.join(joinCode);
+            socket.data.joinCode = joinCode;
+            socket.data.playerId = player.id;
+
+            io.to(joinCode).emit("player_reconnected", {
+                id: player.id,
+                nickname: player.nickname,
+                score: player.score,
+                team: player.team
+            });
+
+            return { snapshot };
+        });
+
+        // Player switches team in the lobby
+        handle("choose_team", async ({ joinCode, team }) => {
+            const playerId = socket.data.playerId;
+            if (!playerId || socket.data.joinCode !== joinCode) throw new Error("Not joined to this game");
+
+            await GameEngine.chooseTeam(joinCode, playerId, team);
+            io.to(joinCode).emit("team_changed", { playerId, team });
+            return {};
+        });
+
+        // Assignment player moves on to their next question, at their own pace
+        handle("next_assignment_question", async ({ joinCode }) => {
+            const playerId = socket.data.playerId;
+            if (!playerId || socket.data.joinCode !== joinCode) throw new Error("Not joined to this game");
+
+            return { question: await GameEngine.nextPlayerQuestion(joinCode, playerId) };
         });
 
         // Host starts the game
-        socket.on("start_game", async ({ joinCode }, callback) => {
-            try {
-                console.log("Starting game", joinCode);
-                await GameEngine.startGame(joinCode);
-                io.to(joinCode).emit("game_started");
-                callback({ success: true });
-            } catch (e: any) {
-                callback({ success: false, error: e.message });
-            }
+        handle("start_game", async ({ joinCode, hostToken }) => {
+            await requireHost("start_game", joinCode, hostToken);
+            console.log("Starting game", joinCode);
+            if (!(await GameEngine.startGame(joinCode))) throw new Error("Session not found");
+            io.to(joinCode).emit("game_started");
+            return {};
         });
 
         // Host requests next question
-        socket.on("next_question", async ({ joinCode }, callback) => {
-            try {
-                console.log("Next question", joinCode);
-                const { question, totalQuestions, state } = await GameEngine.nextQuestion(joinCode);
-
-                if (question) {
-                    // Send question to all (without correct answer for players)
-                    io.to(joinCode).emit("question_start", {
-                        questionIndex: state.currentQuestionIndex,
-                        totalQuestions,
-                        text: question.text,
-                        options: question.options,
-                        timeLimit: question.timeLimit
-                    });
-                    callback({ success: true, question, totalQuestions, questionIndex: state.currentQuestionIndex });
-                } else {
-                    // Game ended
-                    const leaderboard = await GameEngine.getLeaderboard(joinCode);
-                    io.to(joinCode).emit("game_ended", { leaderboard });
-                    callback({ success: true, ended: true, leaderboard });
-                }
-            } catch (e: any) {
-                console.error(e);
-                callback({ success: false, error: e.message });
+        handle("next_question", async ({ joinCode, hostToken }) => {
+            await requireHost("next_question", joinCode, hostToken);
+            console.log("Next question", joinCode);
+            const { question, totalQuestions, state } = await GameEngine.nextQuestion(joinCode);
+
+            if (question && state.questionDeadline) {
+                // The deadline is absolute server time; serverTime lets clients correct for clock skew
+                const timing = { deadline: state.questionDeadline, serverTime: Date.now() };
+
+                // Send question to all (without correct answer for players)
+                io.to(joinCode).emit("question_start", {
+                    questionIndex: state.currentQuestionIndex,
+                    totalQuestions,
+                    type: question.type,
+                    text: question.text,
+                    options: question.options,
+                    slider: sliderRange(question),
+                    ...playerImages(question),
+                    timeLimit: question.timeLimit,
+                    ...timing
+                });
+                // The host's screens get the full question, answer included
+                const hostQuestion = { question, totalQuestions, questionIndex: state.currentQuestionIndex, ...timing };
+                io.to(hostRoom(joinCode)).emit("host_question_start", hostQuestion);
+                return hostQuestion;
             }
+
+            // Game ended
+            const standings = await GameEngine.getStandings(joinCode);
+            io.to(joinCode).emit("game_ended", standings);
+            return { ended: true, ...standings, sessionId: state.sessionId };
         });
 
         // Player submits answer
-        socket.on("submit_answer", async ({ joinCode, playerId, optionIndex }, callback) => {
-            try {
-                console.log("Answer submitted", joinCode, playerId, optionIndex);
-                const result = await GameEngine.submitAnswer(joinCode, playerId, optionIndex);
+        handle("submit_answer", async ({ joinCode, ...response }) => {
+            // Answers always count for the player attached to this socket
+            const playerId = socket.data.playerId;
+            if (!playerId || socket.data.joinCode !== joinCode) throw new Error("Not joined to this game");
 
-                // Get current answer count
-                const state = await GameEngine.getSession(joinCode);
-                const answerCount = state ? Object.keys(state.answers).length : 0;
-                const totalPlayers = state ? Object.keys(state.players).length : 0;
+            console.log("Answer submitted", joinCode, playerId, response);
+            const { questionIndex, answerCount, totalPlayers, allAnswered, ...grade } =
+                await GameEngine.submitAnswer(joinCode, playerId, response);
+            const result = toAnswerResult(grade);
 
-                // Notify host of answer count update
-                io.to(joinCode).emit("answer_count_update", { answerCount, totalPlayers });
+            // Notify host of answer count update
+            io.to(joinCode).emit("answer_count_update", { answerCount, totalPlayers });
 
-                // Send result back to player
-                callback({ success: true, ...result });
+            // Also emit to the specific player
+            socket.emit("answer_result", result);
 
-                // Also emit to the specific player
-                socket.emit("answer_result", result);
-            } catch (e: any) {
-                console.error(e);
-                callback({ success: false, error: e.message });
+            // Polls and word clouds fill in on the host screen as answers arrive
+            if (!grade.scored) {
+                GameEngine.getLiveResults(joinCode)
+                    .then(live => { if (live) io.to(joinCode).emit("live_results", live); })
+                    .catch(e => console.error(e));
             }
-        });
 
-        // Host ends question and shows results
-        socket.on("show_results", async ({ joinCode }, callback) => {
-            try {
-                console.log("Showing results", joinCode);
-                const results = await GameEngine.showResults(joinCode);
+            // Everyone is in, no need to wait for the timer
+            if (allAnswered) {
+                GameEngine.closeQuestion(joinCode, questionIndex).catch(e => console.error(e));
+            }
 
-                io.to(joinCode).emit("question_results", {
-                    correctOptionIndex: results.correctOptionIndex,
-                    answerDistribution: results.answerDistribution,
-                    correctCount: results.correctCount
-                });
+            // Send result back to player
+            return result;
+        });
 
-                callback({ success: true, ...results });
-            } catch (e: any) {
-                console.error(e);
-                callback({ success: false, error: e.message });
-            }
+        // Host ends question early and shows results
+        handle("show_results", async ({ joinCode, hostToken }) => {
+            await requireHost("show_results", joinCode, hostToken);
+            console.log("Showing results", joinCode);
+            const results = await GameEngine.closeQuestion(joinCode);
+            if (!results) throw new Error("Question already closed");
+
+            return results;
         });
 
         // Host requests leaderboard
-        socket.on("get_leaderboard", async ({ joinCode }, callback) => {
-            try {
-                const leaderboard = await GameEngine.getLeaderboard(joinCode);
-                io.to(joinCode).emit("leaderboard_update", { leaderboard });
-                callback({ success: true, leaderboard });
-            } catch (e: any) {
-                console.error(e);
-                callback({ success: false, error: e.message });
+        handle("get_leaderboard", async ({ joinCode, hostToken }) => {
+            await requireHost("get_leaderboard", joinCode, hostToken);
+            const standings = await GameEngine.getStandings(joinCode);
+            io.to(joinCode).emit("leaderboard_update", standings);
+            return standings;
+        });
+
+        // Host kicks a player, or bans them from coming back
+        handle("kick_player", async ({ joinCode, hostToken, playerId, ban }) => {
+            await requireHost("kick_player", joinCode, hostToken);
+            console.log(ban ? "Banning player" : "Kicking player", joinCode, playerId);
+            const { questionOpen, questionIndex, answerCount, totalPlayers, allAnswered } =
+                await GameEngine.removePlayer(joinCode, playerId, ban);
+
+            // Tell the player's device why before cutting it off; it may be connected more than once
+            const sockets = await io.in(joinCode).fetchSockets();
+            sockets.filter(s => s.data.playerId === playerId).forEach(s => {
+                s.emit("kicked", { banned: ban });
+                s.disconnect(true);
+            });
+            io.to(joinCode).emit("player_removed", { playerId });
+
+            if (questionOpen) {
+                io.to(joinCode).emit("answer_count_update", { answerCount, totalPlayers });
+                if (allAnswered) GameEngine.closeQuestion(joinCode, questionIndex).catch(e => console.error(e));
             }
+            return {};
         });
 
         socket.on("disconnect", () => {
             console.log("Client disconnected", socket.id);
-            // Could notify room of player disconnect here
+            // The player keeps their record and score; the host just shows them as offline
             if (socket.data.joinCode && socket.data.playerId) {
                 io.to(socket.data.joinCode).emit("player_disconnected", {
                     playerId: socket.data.playerId
@@ -162,6 +300,26 @@ app.prepare().then(() => {
         });
     });
 
+    // Games whose Redis state expired never reached ENDED in the database; close them out
+    const endAbandonedSessions = () => {
+        GameEngine.endAbandonedSessions()
+            .then(count => {
+                if (count > 0) console.log(`Ended ${count} abandoned session(s)`);
+            })
+            .catch(e => console.error("Session cleanup failed", e));
+    };
+    endAbandonedSessions();
+    setInterval(endAbandonedSessions, SESSION_CLEANUP_INTERVAL_MS);
+
+    // Picks up question deadlines left behind by an instance that stopped
+    setInterval(() => {
+        GameEngine.closeOverdueQuestions()
+            .then(count => {
+                if (count > 0) console.log(`Closed ${count} overdue question(s)`);
+            })
+            .catch(e => console.error("Closing overdue questions failed", e));
+    }, OVERDUE_QUESTION_CHECK_INTERVAL_MS);
+
     httpServer
         .once("error", (err) => {
             console.error(err);
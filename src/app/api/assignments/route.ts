@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { parseAssignment } from '@/lib/assignment-schema';
+import { GameEngine } from '@/lib/game-engine';
+
+// Publishes a quiz as a self-paced assignment that players can join until it closes
+export async function POST(request: Request) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const parsed = parseAssignment(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid assignment', issues: parsed.issues }, { status: 400 });
+        }
+        const { quizId, opensAt, closesAt } = parsed.data;
+
+        // Nobody drives an assignment, so the host credential isn't handed out
+        const { sessionId, joinCode } = await GameEngine.createSession(quizId, user.id, { assignment: { opensAt, closesAt } });
+        return NextResponse.json({ sessionId, joinCode, opensAt, closesAt });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Quiz not found') {
+            return NextResponse.json({ error: 'Quiz not found' }, { status: 404 });
+        }
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to create assignment' }, { status: 500 });
+    }
+}
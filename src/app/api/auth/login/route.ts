@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createAuthSession, SESSION_COOKIE, sessionCookieOptions, verifyPassword } from '@/lib/auth';
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+        const password = typeof body.password === 'string' ? body.password : '';
+
+        const user = email ? await prisma.user.findUnique({ where: { email } }) : null;
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+            return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+        }
+
+        const token = await createAuthSession(user.id);
+        const response = NextResponse.json({ id: user.id, email: user.email, role: user.role });
+        response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions);
+        return response;
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to log in' }, { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { destroyAuthSession, getSessionToken, SESSION_COOKIE } from '@/lib/auth';
+
+export async function POST(request: Request) {
+    try {
+        const token = getSessionToken(request.headers.get('cookie'));
+        if (token) {
+            await destroyAuthSession(token);
+        }
+
+        const response = NextResponse.json({ success: true });
+        response.cookies.delete(SESSION_COOKIE);
+        return response;
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to log out' }, { status: 500 });
+    }
+}
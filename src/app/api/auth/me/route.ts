@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+
+export async function GET(request: Request) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        return NextResponse.json(user);
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to load user' }, { status: 500 });
+    }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createAuthSession, hashPassword, SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+        const password = typeof body.password === 'string' ? body.password : '';
+
+        if (!EMAIL_PATTERN.test(email)) {
+            return NextResponse.json({ error: 'Please enter a valid email address' }, { status: 400 });
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+        }
+
+        const existing = await prisma.user.findUnique({ where: { email } });
+        if (existing) {
+            return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+        }
+
+        const user = await prisma.user.create({
+            data: {
+                email,
+                passwordHash: await hashPassword(password),
+                role: 'HOST'
+            }
+        });
+
+        const token = await createAuthSession(user.id);
+        const response = NextResponse.json({ id: user.id, email: user.email, role: user.role });
+        response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions);
+        return response;
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to sign up' }, { status: 500 });
+    }
+}
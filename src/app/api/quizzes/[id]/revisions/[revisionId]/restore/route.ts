@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { parseQuiz } from '@/lib/quiz-schema';
+import { revisionQuestions, saveQuizContent } from '@/lib/quiz-revisions';
+import { uploadIssues } from '@/lib/uploads';
+
+// Brings back an earlier revision by saving its content again, as the newest revision
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, revisionId } = await params;
+        const revision = await prisma.quizRevision.findFirst({
+            where: { id: revisionId, quizId: id, quiz: { ownerId: user.id } }
+        });
+        if (!revision) {
+            return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+        }
+
+        // Checked again in case the rules for quizzes changed since it was saved
+        const parsed = parseQuiz({ title: revision.title, questions: revisionQuestions(revision) });
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'This revision can no longer be restored', issues: parsed.issues }, { status: 409 });
+        }
+        const imageIssues = await uploadIssues(user.id, parsed.data.questions);
+        if (imageIssues.length > 0) {
+            return NextResponse.json({ error: 'This revision can no longer be restored', issues: imageIssues }, { status: 409 });
+        }
+
+        const quiz = await prisma.$transaction(tx => saveQuizContent(tx, id, parsed.data, revision.number));
+        return NextResponse.json(quiz);
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to restore revision' }, { status: 500 });
+    }
+}
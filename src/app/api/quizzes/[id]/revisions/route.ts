@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { listRevisions } from '@/lib/quiz-revisions';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const existing = await prisma.quiz.findFirst({ where: { id, ownerId: user.id } });
+        if (!existing) {
+            return NextResponse.json({ error: 'Quiz not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(await listRevisions(id));
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+    }
+}
@@ -1,14 +1,23 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { parseQuiz } from '@/lib/quiz-schema';
+import { saveQuizContent } from '@/lib/quiz-revisions';
+import { referencedUploads, removeOrphanedUploads, uploadIssues } from '@/lib/uploads';
 
 export async function GET(
     request: Request,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
         const { id } = await params;
-        const quiz = await prisma.quiz.findUnique({
-            where: { id },
+        const quiz = await prisma.quiz.findFirst({
+            where: { id, ownerId: user.id },
             include: {
                 questions: {
                     orderBy: { order: 'asc' }
@@ -32,37 +41,37 @@ export async function PUT(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
         const { id } = await params;
-        const body = await request.json();
-        const { title, questions } = body;
+        const existing = await prisma.quiz.findFirst({ where: { id, ownerId: user.id } });
+        if (!existing) {
+            return NextResponse.json({ error: 'Quiz not found' }, { status: 404 });
+        }
 
-        // Delete existing questions and create new ones (replace all)
-        await prisma.question.deleteMany({
-            where: { quizId: id }
-        });
+        const parsed = parseQuiz(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid quiz', issues: parsed.issues }, { status: 400 });
+        }
+        const imageIssues = await uploadIssues(user.id, parsed.data.questions);
+        if (imageIssues.length > 0) {
+            return NextResponse.json({ error: 'Invalid quiz', issues: imageIssues }, { status: 400 });
+        }
 
-        const quiz = await prisma.quiz.update({
-            where: { id },
-            data: {
-                title,
-                questions: {
-                    create: questions.map((q: any, index: number) => ({
-                        text: q.text,
-                        type: q.type || 'MCQ',
-                        timeLimit: q.timeLimit || 20,
-                        options: q.options,
-                        correctOptionIndex: q.correctOptionIndex,
-                        order: index
-                    }))
-                }
-            },
-            include: {
-                questions: {
-                    orderBy: { order: 'asc' }
-                }
-            }
+        const previousImages = await prisma.question.findMany({
+            where: { quizId: id },
+            select: { imageId: true, optionImageIds: true }
         });
 
+        // Every save becomes a new revision, so nothing it replaces is lost
+        const quiz = await prisma.$transaction(tx => saveQuizContent(tx, id, parsed.data));
+
+        // Earlier revisions keep their images; the rest go now and a failed cleanup is retried by the next one
+        await removeOrphanedUploads(user.id, referencedUploads(previousImages)).catch(e => console.error(e));
+
         return NextResponse.json(quiz);
     } catch (error) {
         console.error(error);
@@ -75,11 +84,32 @@ export async function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
         const { id } = await params;
 
+        const existing = await prisma.quiz.findFirst({ where: { id, ownerId: user.id } });
+        if (!existing) {
+            return NextResponse.json({ error: 'Quiz not found' }, { status: 404 });
+        }
+
+        const images = await prisma.question.findMany({
+            where: { quizId: id },
+            select: { imageId: true, optionImageIds: true }
+        });
+        const revisions = await prisma.quizRevision.findMany({
+            where: { quizId: id },
+            select: { uploadIds: true }
+        });
+
         await prisma.quiz.delete({
             where: { id }
         });
+        const released = [...referencedUploads(images), ...revisions.flatMap(revision => revision.uploadIds)];
+        await removeOrphanedUploads(user.id, released).catch(e => console.error(e));
 
         return NextResponse.json({ success: true });
     } catch (error) {
@@ -1,44 +1,32 @@
 import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma'; // Ensure this path is correct based on your previous file creation
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { parseQuiz } from '@/lib/quiz-schema';
+import { saveQuizContent } from '@/lib/quiz-revisions';
+import { uploadIssues } from '@/lib/uploads';
 
 export async function POST(request: Request) {
     try {
-        const body = await request.json();
-        const { title, questions } = body;
-
-        // Hardcoded ownerId for V1 (assuming single host or implicit host)
-        // In a real app, get this from session/auth
-        const ownerId = "host-123";
-
-        // Ensure User exists (bootstrap)
-        let user = await prisma.user.findUnique({ where: { id: ownerId } });
+        const user = await getCurrentUser(request);
         if (!user) {
-            // Create dummy host if not exists (for prototype simplicity)
-            user = await prisma.user.create({
-                data: {
-                    id: ownerId,
-                    email: "host@vibehoot.com",
-                    passwordHash: "dummy",
-                    role: "HOST"
-                }
-            });
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const parsed = parseQuiz(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid quiz', issues: parsed.issues }, { status: 400 });
+        }
+        const imageIssues = await uploadIssues(user.id, parsed.data.questions);
+        if (imageIssues.length > 0) {
+            return NextResponse.json({ error: 'Invalid quiz', issues: imageIssues }, { status: 400 });
         }
 
-        const quiz = await prisma.quiz.create({
-            data: {
-                title,
-                ownerId: user.id,
-                questions: {
-                    create: questions.map((q: any, index: number) => ({
-                        text: q.text,
-                        type: q.type,
-                        timeLimit: q.timeLimit,
-                        options: q.options,
-                        correctOptionIndex: q.correctOptionIndex,
-                        order: index
-                    }))
-                }
-            }
+        // The first save is the quiz's first revision
+        const quiz = await prisma.$transaction(async tx => {
+            const { id } = await tx.quiz.create({
+                data: { title: parsed.data.title, ownerId: user.id }
+            });
+            return saveQuizContent(tx, id, parsed.data);
         });
 
         return NextResponse.json(quiz);
@@ -48,9 +36,15 @@ export async function POST(request: Request) {
     }
 }
 
-export async function GET() {
+export async function GET(request: Request) {
     try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
         const quizzes = await prisma.quiz.findMany({
+            where: { ownerId: user.id },
             include: { _count: { select: { questions: true } } },
             orderBy: { createdAt: 'desc' }
         });
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { buildSessionReport, reportToCsv, reportToXlsx } from '@/lib/session-report';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const format = new URL(request.url).searchParams.get('format') || 'csv';
+        if (format !== 'csv' && format !== 'xlsx') {
+            return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
+        }
+
+        const { id } = await params;
+        const report = await buildSessionReport(id, user.id);
+        if (!report) {
+            return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+        }
+
+        const safeTitle = report.session.quizTitle.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'quiz';
+        const filename = `${safeTitle}-${report.session.joinCode}.${format}`;
+
+        if (format === 'csv') {
+            return new NextResponse(reportToCsv(report), {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${filename}"`
+                }
+            });
+        }
+
+        const xlsx = await reportToXlsx(report);
+        return new NextResponse(new Uint8Array(xlsx), {
+            headers: {
+                'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                'Content-Disposition': `attachment; filename="${filename}"`
+            }
+        });
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to export report' }, { status: 500 });
+    }
+}
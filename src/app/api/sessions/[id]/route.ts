@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { buildSessionReport } from '@/lib/session-report';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const report = await buildSessionReport(id, user.id);
+        if (!report) {
+            return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(report);
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to build report' }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+
+export async function GET(request: Request) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const sessions = await prisma.session.findMany({
+            where: { hostId: user.id },
+            include: {
+                quiz: { select: { title: true } },
+                _count: { select: { players: true } }
+            },
+            orderBy: { startedAt: { sort: 'desc', nulls: 'last' } },
+            take: 50
+        });
+        return NextResponse.json(sessions);
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { uploadStorage } from '@/lib/upload-storage';
+
+// Public, since players' devices show question images without signing in.
+// An upload never changes under its id, so browsers may cache it for good.
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const upload = await prisma.upload.findUnique({ where: { id } });
+        const data = upload && await uploadStorage.read(upload.id);
+        if (!upload || !data) {
+            return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+        }
+
+        return new NextResponse(new Uint8Array(data), {
+            headers: {
+                'Content-Type': upload.contentType,
+                'Cache-Control': 'public, max-age=31536000, immutable',
+                'X-Content-Type-Options': 'nosniff'
+            }
+        });
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to fetch image' }, { status: 500 });
+    }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { UPLOAD_LIMITS, detectImageType, saveUpload } from '@/lib/uploads';
+import { uploadUrl } from '@/lib/quiz-schema';
+
+// Takes a single image as the "file" field of a multipart form
+export async function POST(request: Request) {
+    try {
+        const user = await getCurrentUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const form = await request.formData().catch(() => null);
+        const file = form?.get('file');
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+        }
+        if (file.size > UPLOAD_LIMITS.maxBytes) {
+            return NextResponse.json({ error: `Images must be at most ${UPLOAD_LIMITS.maxBytes / 1024 / 1024} MB` }, { status: 413 });
+        }
+
+        const data = Buffer.from(await file.arrayBuffer());
+        const contentType = detectImageType(data);
+        if (!contentType) {
+            return NextResponse.json({ error: 'Only PNG, JPEG, GIF and WebP images are supported' }, { status: 415 });
+        }
+
+        const id = await saveUpload(user.id, data, contentType);
+        return NextResponse.json({ id, url: uploadUrl(id) });
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: 'Failed to upload image' }, { status: 500 });
+    }
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ASSIGNMENT_LIMITS } from '@/lib/assignment-schema';
+import { issuesByPath } from '@/lib/quiz-schema';
+import styles from './page.module.css';
+
+interface Assignment {
+    sessionId: string;
+    joinCode: string;
+    closesAt: number;
+}
+
+const DEFAULT_DAYS_OPEN = 7;
+
+// datetime-local inputs take local time without a zone, e.g. "2025-03-01T09:30"
+function toLocalInput(time: number): string {
+    const date = new Date(time - new Date(time).getTimezoneOffset() * 60 * 1000);
+    return date.toISOString().slice(0, 16);
+}
+
+export default function AssignQuiz() {
+    const router = useRouter();
+    const params = useParams();
+    const quizId = params.id as string;
+    const [opensAt, setOpensAt] = useState(() => toLocalInput(Date.now()));
+    const [closesAt, setClosesAt] = useState(() => toLocalInput(Date.now() + DEFAULT_DAYS_OPEN * 24 * 60 * 60 * 1000));
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [assignment, setAssignment] = useState<Assignment | null>(null);
+
+    const publish = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setErrors({});
+        setError('');
+        setSaving(true);
+        try {
+            const res = await fetch('/api/assignments', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    quizId,
+                    opensAt: new Date(opensAt).toISOString(),
+                    closesAt: new Date(closesAt).toISOString()
+                })
+            });
+            if (res.status === 401) {
+                router.push('/host/login');
+                return;
+            }
+            const data = await res.json();
+            if (res.ok) {
+                setAssignment(data);
+            } else if (data.issues) {
+                setErrors(issuesByPath(data.issues));
+            } else {
+                setError(data.error || 'Failed to create assignment');
+            }
+        } catch {
+            setError('Could not reach the server');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (assignment) {
+        return (
+            <div className={styles.container}>
+                <div className={styles.card}>
+                    <h1>Assignment published</h1>
+                    <p className={styles.subtitle}>Players join with this code until {new Date(assignment.closesAt).toLocaleString()}</p>
+                    <span className={styles.joinCode}>{assignment.joinCode}</span>
+                    <Link href={`/host/sessions/${assignment.sessionId}`} className={styles.submitBtn}>
+                        View Results
+                    </Link>
+                    <Link href="/host/dashboard" className={styles.secondaryBtn}>
+                        Back to Dashboard
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={styles.container}>
+            <form className={styles.card} onSubmit={publish}>
+                <h1>Assign Quiz</h1>
+                <p className={styles.subtitle}>
+                    Players go through the questions at their own pace, up to {ASSIGNMENT_LIMITS.maxDays} days
+                </p>
+                <label className={styles.field}>
+                    Opens
+                    <input
+                        className={styles.input}
+                        type="datetime-local"
+                        value={opensAt}
+                        onChange={(e) => setOpensAt(e.target.value)}
+                        required
+                    />
+                    {errors.opensAt && <span className={styles.errorText}>{errors.opensAt}</span>}
+                </label>
+                <label className={styles.field}>
+                    Closes
+                    <input
+                        className={styles.input}
+                        type="datetime-local"
+                        value={closesAt}
+                        onChange={(e) => setClosesAt(e.target.value)}
+                        required
+                    />
+                    {errors.closesAt && <span className={styles.errorText}>{errors.closesAt}</span>}
+                </label>
+                {error && <p className={styles.errorText}>{error}</p>}
+                <button type="submit" className={styles.submitBtn} disabled={saving}>
+                    {saving ? 'Publishing...' : 'Publish Assignment'}
+                </button>
+                <Link href="/host/dashboard" className={styles.secondaryBtn}>
+                    Cancel
+                </Link>
+            </form>
+        </div>
+    );
+}
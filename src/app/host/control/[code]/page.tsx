@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { io, Socket } from 'socket.io-client';
+import type { HostSnapshot, LeaderboardEntry } from '@/lib/game-engine';
+import type {
+    AckResponse, ClientAckData, ClientToServerEvents, HostQuestion, LobbyPlayer, ServerToClientEvents
+} from '@/lib/socket-protocol';
+import styles from './page.module.css';
+
+// The controls that take nothing beyond the host credential
+type HostControlEvent = 'start_game' | 'next_question' | 'show_results' | 'get_leaderboard';
+
+type Phase = 'CONNECTING' | 'LOBBY' | 'QUESTION' | 'RESULTS' | 'LEADERBOARD' | 'ENDED';
+
+const PHASE_LABELS: Record<Phase, string> = {
+    CONNECTING: 'Connecting…',
+    LOBBY: 'Lobby',
+    QUESTION: 'Question open',
+    RESULTS: 'Results',
+    LEADERBOARD: 'Leaderboard',
+    ENDED: 'Game over'
+};
+
+// A phone-sized remote for a running game. The projector runs the display view; both follow
+// the same broadcasts, so the display moves on whenever a control is used here.
+export default function GameControl() {
+    const params = useParams();
+    const joinCode = String(params.code);
+    const [hostToken, setHostToken] = useState('');
+    const [phase, setPhase] = useState<Phase>('CONNECTING');
+    const [error, setError] = useState('');
+    const [players, setPlayers] = useState<LobbyPlayer[]>([]);
+    const [question, setQuestion] = useState<HostQuestion | null>(null);
+    const [deadline, setDeadline] = useState(0); // in local clock time
+    const [timeLeft, setTimeLeft] = useState(0);
+    const [answerCount, setAnswerCount] = useState(0);
+    const [correctCount, setCorrectCount] = useState(0);
+    const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+    const [sessionId, setSessionId] = useState('');
+    const [busy, setBusy] = useState(false); // a control is waiting for the server
+    const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
+
+    const showQuestion = useCallback((next: HostQuestion) => {
+        setQuestion(next);
+        // Translate the server deadline into local time to cancel out clock skew
+        setDeadline(next.deadline - next.serverTime + Date.now());
+        setAnswerCount(0);
+        setPhase('QUESTION');
+    }, []);
+
+    const applySnapshot = useCallback((snapshot: HostSnapshot) => {
+        setSessionId(snapshot.sessionId);
+        setPlayers(snapshot.players);
+        if (snapshot.question) showQuestion(snapshot.question);
+        setAnswerCount(snapshot.answerCount);
+        setCorrectCount(snapshot.results?.correctCount ?? 0);
+        setLeaderboard(snapshot.standings?.leaderboard ?? []);
+
+        switch (snapshot.status) {
+            case 'SHOWING_QUESTION':
+                break; // showQuestion already opened it
+            case 'SHOWING_RESULTS':
+                setPhase('RESULTS');
+                break;
+            case 'ENDED':
+                setPhase('ENDED');
+                break;
+            default:
+                setPhase('LOBBY');
+        }
+    }, [showQuestion]);
+
+    useEffect(() => {
+        const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io();
+        socketRef.current = socket;
+
+        // Also after a dropped connection, which leaves the game's rooms
+        socket.on('connect', () => {
+            socket.emit('watch_game', { joinCode }, (res) => {
+                if (res.success) {
+                    setError('');
+                    setHostToken(res.hostToken);
+                    applySnapshot(res.snapshot);
+                } else {
+                    setError(res.error);
+                }
+            });
+        });
+
+        socket.on('player_joined', (player) => {
+            setPlayers(prev => prev.some(p => p.id === player.id) ? prev : [...prev, player]);
+        });
+
+        socket.on('player_reconnected', (player) => {
+            setPlayers(prev => prev.some(p => p.id === player.id) ? prev : [...prev, player]);
+        });
+
+        socket.on('player_removed', ({ playerId }) => {
+            setPlayers(prev => prev.filter(p => p.id !== playerId));
+        });
+
+        socket.on('host_question_start', showQuestion);
+
+        socket.on('answer_count_update', ({ answerCount: count }) => {
+            setAnswerCount(count);
+        });
+
+        socket.on('question_results', (results) => {
+            setCorrectCount(results.correctCount);
+            setPhase('RESULTS');
+        });
+
+        socket.on('leaderboard_update', (standings) => {
+            setLeaderboard(standings.leaderboard);
+            setPhase('LEADERBOARD');
+        });
+
+        socket.on('game_ended', (standings) => {
+            setLeaderboard(standings.leaderboard);
+            setPhase('ENDED');
+        });
+
+        socket.on('disconnect', () => {
+            setPhase('CONNECTING');
+        });
+
+        return () => {
+            socket.disconnect();
+        };
+    }, [joinCode, applySnapshot, showQuestion]);
+
+    useEffect(() => {
+        if (phase !== 'QUESTION' || deadline === 0) return;
+        const timer = setInterval(() => {
+            setTimeLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+        }, 250);
+        return () => clearInterval(timer);
+    }, [phase, deadline]);
+
+    // Sends a host control; the new phase arrives through the broadcasts
+    const control = <E extends HostControlEvent>(event: E, then?: () => void) => {
+        if (!socketRef.current || busy) return;
+        setBusy(true);
+        const ack = (res: AckResponse<ClientAckData[E]>) => {
+            setBusy(false);
+            if (!res.success) {
+                alert('Failed: ' + res.error);
+                return;
+            }
+            // next_question reports the session once the game has ended
+            if ('sessionId' in res) setSessionId(res.sessionId);
+            then?.();
+        };
+        // The compiler can't match the arguments to an event that is only known as a type parameter
+        const args = [{ joinCode, hostToken }, ack] as Parameters<ClientToServerEvents[E]>;
+        socketRef.current.emit(event, ...args);
+    };
+
+    const kickPlayer = (player: LobbyPlayer, ban: boolean) => {
+        const prompt = ban ? `Ban ${player.nickname} from this game?` : `Remove ${player.nickname} from the game?`;
+        if (!socketRef.current || !confirm(prompt)) return;
+        socketRef.current.emit('kick_player', { joinCode, hostToken, playerId: player.id, ban }, (res) => {
+            if (!res.success) alert('Could not remove player: ' + res.error);
+        });
+    };
+
+    const lastQuestion = question !== null && question.questionIndex + 1 >= question.totalQuestions;
+
+    if (error) {
+        return (
+            <div className={styles.container}>
+                <div className={styles.panel}>
+                    <p className={styles.error}>{error}</p>
+                    <Link href="/host/dashboard" className={styles.secondaryBtn}>Back to dashboard</Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.panel}>
+                <header className={styles.header}>
+                    <span className={styles.code}>{joinCode}</span>
+                    <span className={styles.phase}>{PHASE_LABELS[phase]}</span>
+                </header>
+
+                {question && (phase === 'QUESTION' || phase === 'RESULTS' || phase === 'LEADERBOARD') && (
+                    <section className={styles.questionCard}>
+                        <span className={styles.muted}>Question {question.questionIndex + 1} of {question.totalQuestions}</span>
+                        <p className={styles.questionText}>{question.question.text}</p>
+                        {phase === 'QUESTION' && (
+                            <div className={styles.stats}>
+                                <span className={styles.timeLeft}>{timeLeft}s</span>
+                                <span>{answerCount} / {players.length} answered</span>
+                            </div>
+                        )}
+                        {phase === 'RESULTS' && (
+                            <div className={styles.stats}>
+                                <span>{correctCount} correct</span>
+                                <span>{answerCount} / {players.length} answered</span>
+                            </div>
+                        )}
+                    </section>
+                )}
+
+                {phase === 'LEADERBOARD' && (
+                    <ol className={styles.leaderboard}>
+                        {leaderboard.slice(0, 5).map(player => (
+                            <li key={player.id}>
+                                <span>{player.nickname}</span>
+                                <span>{player.score}</span>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+
+                <div className={styles.controls}>
+                    {phase === 'LOBBY' && (
+                        <button
+                            className={styles.primaryBtn}
+                            onClick={() => control('start_game', () => control('next_question'))}
+                            disabled={busy || players.length === 0}
+                        >
+                            Start Game
+                        </button>
+                    )}
+                    {phase === 'QUESTION' && (
+                        <button className={styles.primaryBtn} onClick={() => control('show_results')} disabled={busy}>
+                            Skip Timer
+                        </button>
+                    )}
+                    {phase === 'RESULTS' && (
+                        <>
+                            <button className={styles.primaryBtn} onClick={() => control('get_leaderboard')} disabled={busy}>
+                                Show Leaderboard
+                            </button>
+                            <button className={styles.secondaryBtn} onClick={() => control('next_question')} disabled={busy}>
+                                {lastQuestion ? 'End Game' : 'Next Question'}
+                            </button>
+                        </>
+                    )}
+                    {phase === 'LEADERBOARD' && (
+                        <button className={styles.primaryBtn} onClick={() => control('next_question')} disabled={busy}>
+                            {lastQuestion ? 'End Game' : 'Next Question'}
+                        </button>
+                    )}
+                    {phase === 'ENDED' && sessionId && (
+                        <Link href={`/host/sessions/${sessionId}`} className={styles.primaryBtn}>
+                            View Full Report
+                        </Link>
+                    )}
+                </div>
+
+                {phase !== 'CONNECTING' && phase !== 'ENDED' && (
+                    <details className={styles.players} open={phase === 'LOBBY'}>
+                        <summary>Players ({players.length})</summary>
+                        <ul>
+                            {players.map(player => (
+                                <li key={player.id}>
+                                    <span>{player.nickname}</span>
+                                    <span className={styles.playerActions}>
+                                        <button onClick={() => kickPlayer(player, false)} title={`Remove ${player.nickname}`}>✕</button>
+                                        <button onClick={() => kickPlayer(player, true)} title={`Ban ${player.nickname}`}>🚫</button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import styles from './page.module.css';
+import { uploadUrl } from '@/lib/quiz-schema';
+
+interface ImageUploadProps {
+    imageId: string | null;
+    label: string; // what the image belongs to, e.g. "Question image"
+    compact?: boolean; // icon-sized, for option rows
+    onChange: (imageId: string | null) => void;
+}
+
+export default function ImageUpload({ imageId, label, compact, onChange }: ImageUploadProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState('');
+
+    const upload = async (file: File) => {
+        setUploading(true);
+        setError('');
+        try {
+            const body = new FormData();
+            body.append('file', file);
+            const res = await fetch('/api/uploads', { method: 'POST', body });
+            const data = await res.json();
+            if (res.ok) {
+                onChange(data.id);
+            } else {
+                setError(data.error || 'Upload failed');
+            }
+        } catch (e) {
+            console.error(e);
+            setError('Upload failed');
+        } finally {
+            setUploading(false);
+            if (fileInput.current) fileInput.current.value = '';
+        }
+    };
+
+    // Option rows mark the correct answer on click, so clicks in here must not reach them
+    return (
+        <div className={`${styles.imageUpload} ${compact ? styles.compactImageUpload : ''}`} onClick={(e) => e.stopPropagation()}>
+            {imageId ? (
+                <>
+                    <Image
+                        src={uploadUrl(imageId)}
+                        alt={label}
+                        width={compact ? 48 : 240}
+                        height={compact ? 48 : 135}
+                        className={styles.imagePreview}
+                        unoptimized
+                    />
+                    <button onClick={() => onChange(null)} className={styles.removeQuestionBtn} title={`Remove ${label.toLowerCase()}`}>
+                        ✕
+                    </button>
+                </>
+            ) : (
+                <button
+                    onClick={() => fileInput.current?.click()}
+                    className={styles.addImageBtn}
+                    disabled={uploading}
+                    title={`Add ${label.toLowerCase()}`}
+                >
+                    {uploading ? 'Uploading…' : compact ? '+ 🖼' : '+ Add image'}
+                </button>
+            )}
+            <input
+                ref={fileInput}
+                type="file"
+                accept="image/png,image/jpeg,image/gif,image/webp"
+                hidden
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) upload(file);
+                }}
+            />
+            {error && <p className={styles.fieldError}>{error}</p>}
+        </div>
+    );
+}
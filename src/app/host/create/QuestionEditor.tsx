@@ -0,0 +1,656 @@
+"use client";
+
+import styles from './page.module.css';
+import ImageUpload from './ImageUpload';
+import {
+    MultiSelectConfig, OrderingConfig, POINTS_MODES, PointsMode, QUESTION_TYPES, QUIZ_LIMITS, QuestionConfig, QuestionType, SLIDER_SCORING,
+    SliderConfig, TRUE_FALSE_OPTIONS, TypeInConfig, UnscoredConfig, hasOptionImages, isScored
+} from '@/lib/quiz-schema';
+
+export interface EditorQuestion {
+    id?: string; // Only once the question has been saved
+    text: string;
+    options: string[];
+    correctOptionIndex: number;
+    timeLimit: number;
+    type: QuestionType;
+    config: QuestionConfig | null;
+    imageId: string | null;
+    optionImageIds: string[];
+    showImagesToPlayers: boolean;
+    pointsMode: PointsMode;
+    speedBonus: boolean;
+}
+
+// Question format accepted by the JSON import
+export interface JsonQuestion {
+    question: string;
+    type?: string;
+    options?: string[];
+    correct_index?: number;
+    answer?: boolean | number; // True/False shorthand instead of options + correct_index, or the slider value
+    correct_indexes?: number[]; // Multi-select
+    partial_credit?: boolean; // Multi-select and ordering
+    items?: string[]; // Ordering, in the correct order
+    participation_points?: number; // Poll and word cloud
+    answers?: string[]; // Type-in: accepted answers instead of options
+    max_typos?: number;
+    min?: number; // Slider
+    max?: number;
+    step?: number;
+    tolerance?: number;
+    scoring?: string;
+    unit?: string;
+}
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+    MCQ: 'Multiple Choice',
+    TRUE_FALSE: 'True or False',
+    MULTI_SELECT: 'Multiple Select',
+    TYPE_IN: 'Type Answer',
+    SLIDER: 'Slider',
+    ORDERING: 'Put in Order',
+    POLL: 'Poll',
+    WORD_CLOUD: 'Word Cloud'
+};
+
+const POINTS_LABELS: Record<PointsMode, string> = {
+    STANDARD: 'Standard points',
+    DOUBLE: 'Double points',
+    NONE: 'No points'
+};
+
+const SCORING_LABELS: Record<SliderConfig['scoring'], string> = {
+    EXACT: 'Exact value only',
+    TOLERANCE: 'Full points within tolerance',
+    DECAY: 'Fewer points further away'
+};
+
+function blankOptions(type: QuestionType): string[] {
+    switch (type) {
+        case 'TRUE_FALSE': return [...TRUE_FALSE_OPTIONS];
+        case 'TYPE_IN':
+        case 'SLIDER':
+        case 'WORD_CLOUD': return [];
+        case 'ORDERING': return ['', '', ''];
+        default: return ['', '', '', ''];
+    }
+}
+
+function blankConfig(type: QuestionType): QuestionConfig | null {
+    switch (type) {
+        case 'MULTI_SELECT':
+            return { correctOptionIndexes: [], partialCredit: false };
+        case 'TYPE_IN':
+            return { acceptedAnswers: [''], ignoreCase: true, ignoreAccents: true, ignoreWhitespace: true, maxTypos: 0 };
+        case 'SLIDER':
+            return { min: 0, max: 100, step: 1, correctValue: 50, scoring: 'TOLERANCE', tolerance: 5, unit: '' };
+        case 'ORDERING':
+            return { correctOrder: blankOptions('ORDERING').map((_, index) => index), partialCredit: false };
+        case 'POLL':
+        case 'WORD_CLOUD':
+            return { participationPoints: 0 };
+        default:
+            return null;
+    }
+}
+
+export function blankQuestion(type: QuestionType = 'MCQ'): EditorQuestion {
+    return {
+        text: '',
+        options: blankOptions(type),
+        correctOptionIndex: 0,
+        timeLimit: 20,
+        type,
+        config: blankConfig(type),
+        imageId: null,
+        optionImageIds: [],
+        showImagesToPlayers: false,
+        pointsMode: 'STANDARD',
+        speedBonus: true
+    };
+}
+
+// The editor lists ordering items in their correct order, whatever order they were stored in
+export function inCorrectOrder(question: EditorQuestion): EditorQuestion {
+    if (question.type !== 'ORDERING') return question;
+    const { correctOrder, partialCredit } = question.config as OrderingConfig;
+    return {
+        ...question,
+        options: correctOrder.map(index => question.options[index]),
+        config: { correctOrder: correctOrder.map((_, index) => index), partialCredit }
+    };
+}
+
+// Throws a readable error for the import modal when a question can't be used
+export function fromJsonQuestion(q: JsonQuestion, index: number): EditorQuestion {
+    const type = (q.type || 'MCQ').toUpperCase();
+    if (!q.question || !QUESTION_TYPES.includes(type as QuestionType)) {
+        throw new Error(`Invalid question format at index ${index}`);
+    }
+
+    if (type === 'TRUE_FALSE') {
+        const correctIndex = typeof q.answer === 'boolean' ? (q.answer ? 0 : 1) : q.correct_index;
+        if (correctIndex !== 0 && correctIndex !== 1) {
+            throw new Error(`True/False question at index ${index} needs "answer": true or false`);
+        }
+        return { ...blankQuestion('TRUE_FALSE'), text: q.question, correctOptionIndex: correctIndex };
+    }
+
+    if (type === 'MULTI_SELECT') {
+        if (!Array.isArray(q.options) || !Array.isArray(q.correct_indexes)) {
+            throw new Error(`Multi-select question at index ${index} needs "options" and "correct_indexes"`);
+        }
+        return {
+            ...blankQuestion('MULTI_SELECT'),
+            text: q.question,
+            options: q.options.slice(0, 4),
+            correctOptionIndex: q.correct_indexes[0] ?? 0,
+            config: { correctOptionIndexes: q.correct_indexes, partialCredit: q.partial_credit === true }
+        };
+    }
+
+    if (type === 'TYPE_IN') {
+        if (!Array.isArray(q.answers) || q.answers.length === 0) {
+            throw new Error(`Type-in question at index ${index} needs a list of "answers"`);
+        }
+        return {
+            ...blankQuestion('TYPE_IN'),
+            text: q.question,
+            config: { ...blankConfig('TYPE_IN') as TypeInConfig, acceptedAnswers: q.answers, maxTypos: q.max_typos ?? 0 }
+        };
+    }
+
+    if (type === 'ORDERING') {
+        if (!Array.isArray(q.items)) {
+            throw new Error(`Ordering question at index ${index} needs "items" in the correct order`);
+        }
+        const items = q.items.slice(0, QUIZ_LIMITS.maxOrderingItems);
+        return {
+            ...blankQuestion('ORDERING'),
+            text: q.question,
+            options: items,
+            config: { correctOrder: items.map((_, i) => i), partialCredit: q.partial_credit === true }
+        };
+    }
+
+    if (type === 'SLIDER') {
+        if (typeof q.min !== 'number' || typeof q.max !== 'number' || typeof q.answer !== 'number') {
+            throw new Error(`Slider question at index ${index} needs numeric "min", "max" and "answer"`);
+        }
+        const defaults = blankConfig('SLIDER') as SliderConfig;
+        return {
+            ...blankQuestion('SLIDER'),
+            text: q.question,
+            config: {
+                min: q.min,
+                max: q.max,
+                step: q.step ?? defaults.step,
+                correctValue: q.answer,
+                scoring: (q.scoring?.toUpperCase() ?? defaults.scoring) as SliderConfig['scoring'],
+                tolerance: q.tolerance ?? 0,
+                unit: q.unit ?? ''
+            }
+        };
+    }
+
+    if (type === 'POLL' || type === 'WORD_CLOUD') {
+        if (type === 'POLL' && !Array.isArray(q.options)) {
+            throw new Error(`Poll question at index ${index} needs "options"`);
+        }
+        return {
+            ...blankQuestion(type),
+            text: q.question,
+            options: type === 'POLL' ? (q.options as string[]).slice(0, 4) : [],
+            config: { participationPoints: q.participation_points ?? 0 }
+        };
+    }
+
+    if (!Array.isArray(q.options) || typeof q.correct_index !== 'number') {
+        throw new Error(`Invalid question format at index ${index}`);
+    }
+    return {
+        ...blankQuestion('MCQ'),
+        text: q.question,
+        options: q.options.slice(0, 4),
+        correctOptionIndex: q.correct_index
+    };
+}
+
+// Loose check for the live "valid JSON" indicator; fromJsonQuestion has the final say
+export function looksLikeJsonQuestion(q: JsonQuestion): boolean {
+    if (!q || !q.question) return false;
+    switch ((q.type || '').toUpperCase()) {
+        case 'TRUE_FALSE':
+            return typeof q.answer === 'boolean' || typeof q.correct_index === 'number';
+        case 'MULTI_SELECT':
+            return Array.isArray(q.options) && q.options.length >= 2 && Array.isArray(q.correct_indexes);
+        case 'TYPE_IN':
+            return Array.isArray(q.answers) && q.answers.length > 0;
+        case 'WORD_CLOUD':
+            return true;
+        case 'POLL':
+            return Array.isArray(q.options) && q.options.length >= 2;
+        case 'ORDERING':
+            return Array.isArray(q.items) && q.items.length >= QUIZ_LIMITS.minOrderingItems;
+        case 'SLIDER':
+            return typeof q.min === 'number' && typeof q.max === 'number' && typeof q.answer === 'number';
+        default:
+            return Array.isArray(q.options) && q.options.length >= 2 && typeof q.correct_index === 'number';
+    }
+}
+
+interface QuestionEditorProps {
+    question: EditorQuestion;
+    index: number;
+    errors: Record<string, string>; // field errors for the whole quiz, keyed by path
+    onChange: (question: EditorQuestion) => void;
+    onRemove?: () => void;
+}
+
+export default function QuestionEditor({ question, index, errors, onChange, onRemove }: QuestionEditorProps) {
+    const path = `questions.${index}`;
+    const isTrueFalse = question.type === 'TRUE_FALSE';
+    const multiSelect = question.type === 'MULTI_SELECT' ? question.config as MultiSelectConfig : null;
+    const typeIn = question.type === 'TYPE_IN' ? question.config as TypeInConfig : null;
+    const slider = question.type === 'SLIDER' ? question.config as SliderConfig : null;
+    const ordering = question.type === 'ORDERING' ? question.config as OrderingConfig : null;
+
+    const update = (changes: Partial<EditorQuestion>) => onChange({ ...question, ...changes });
+
+    const updateOption = (oIndex: number, value: string) => {
+        update({ options: question.options.map((opt, i) => i === oIndex ? value : opt) });
+    };
+
+    // Switching type keeps the text and time limit; the answers don't carry over
+    const changeType = (type: QuestionType) => {
+        const fresh = blankQuestion(type);
+        update({
+            type,
+            options: fresh.options,
+            correctOptionIndex: fresh.correctOptionIndex,
+            config: fresh.config,
+            optionImageIds: fresh.optionImageIds
+        });
+    };
+
+    // Stored as one id per option once any option has an image, and as none at all otherwise
+    const setOptionImage = (oIndex: number, imageId: string | null) => {
+        const ids = question.options.map((_, i) => i === oIndex ? imageId ?? '' : question.optionImageIds[i] ?? '');
+        update({ optionImageIds: ids.some(id => id) ? ids : [] });
+    };
+    const hasImages = question.imageId !== null || question.optionImageIds.length > 0;
+
+    // Polls and word clouds have no right answer to mark
+    const unscored = isScored(question.type) ? null : question.config as UnscoredConfig;
+
+    const isCorrect = (oIndex: number) => {
+        if (unscored) return false;
+        return multiSelect
+            ? multiSelect.correctOptionIndexes.includes(oIndex)
+            : question.correctOptionIndex === oIndex;
+    };
+
+    // Multi-select marks any number of options; the others mark exactly one
+    const markCorrect = (oIndex: number) => {
+        if (unscored) return;
+        if (!multiSelect) {
+            update({ correctOptionIndex: oIndex });
+            return;
+        }
+        const indexes = isCorrect(oIndex)
+            ? multiSelect.correctOptionIndexes.filter(i => i !== oIndex)
+            : [...multiSelect.correctOptionIndexes, oIndex].sort((a, b) => a - b);
+        update({ correctOptionIndex: indexes[0] ?? 0, config: { ...multiSelect, correctOptionIndexes: indexes } });
+    };
+
+    const updateTypeIn = (changes: Partial<TypeInConfig>) => {
+        if (typeIn) update({ config: { ...typeIn, ...changes } });
+    };
+
+    // Items are kept in their correct order, so the order is always the identity
+    const updateItems = (items: string[]) => {
+        if (ordering) update({ options: items, config: { ...ordering, correctOrder: items.map((_, i) => i) } });
+    };
+
+    const moveItem = (from: number, to: number) => {
+        const items = [...question.options];
+        [items[from], items[to]] = [items[to], items[from]];
+        updateItems(items);
+    };
+
+    const updateSlider = (changes: Partial<SliderConfig>) => {
+        if (slider) update({ config: { ...slider, ...changes } });
+    };
+
+    // Empty or partial numbers become NaN, which the server reports as a field error
+    const sliderNumber = (field: 'min' | 'max' | 'step' | 'correctValue' | 'tolerance', label: string) => slider && (
+        <label className={styles.numberField}>
+            {label}
+            <input
+                type="number"
+                value={Number.isNaN(slider[field]) ? '' : slider[field]}
+                step="any"
+                onChange={(e) => updateSlider({ [field]: parseFloat(e.target.value) })}
+                className={errors[`${path}.config.${field}`] ? styles.invalidNumber : ''}
+            />
+        </label>
+    );
+
+    const updateAcceptedAnswer = (aIndex: number, value: string) => {
+        if (typeIn) updateTypeIn({ acceptedAnswers: typeIn.acceptedAnswers.map((a, i) => i === aIndex ? value : a) });
+    };
+
+    // Everything except the text error, which sits under its input
+    const cardErrors = Object.entries(errors)
+        .filter(([key]) => key.startsWith(`${path}.`) && key !== `${path}.text`)
+        .map(([key, message]) => {
+            const option = key.match(/\.options\.(\d+)$/);
+            if (option) return `${ordering ? 'Item' : 'Option'} ${Number(option[1]) + 1}: ${message}`;
+            const optionImage = key.match(/\.optionImageIds\.(\d+)$/);
+            if (optionImage) return `Option ${Number(optionImage[1]) + 1} image: ${message}`;
+            const accepted = key.match(/\.acceptedAnswers\.(\d+)$/);
+            return accepted ? `Accepted answer ${Number(accepted[1]) + 1}: ${message}` : message;
+        });
+
+    return (
+        <div className={styles.questionCard}>
+            <div className={styles.cardHeader}>
+                <span>Question {index + 1}</span>
+                <select
+                    className={styles.typeSelect}
+                    value={question.type}
+                    onChange={(e) => changeType(e.target.value as QuestionType)}
+                    aria-label="Question type"
+                >
+                    {QUESTION_TYPES.map(type => (
+                        <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    value={question.timeLimit}
+                    onChange={(e) => update({ timeLimit: parseInt(e.target.value) })}
+                    className={styles.timeInput}
+                />
+                <span className={styles.secondsLabel}>sec</span>
+                {onRemove && (
+                    <button
+                        onClick={onRemove}
+                        className={styles.removeQuestionBtn}
+                        title="Remove question"
+                    >
+                        ✕
+                    </button>
+                )}
+            </div>
+
+            <input
+                className={styles.questionInput}
+                placeholder={isTrueFalse ? 'Statement to judge true or false' : 'Question text?'}
+                value={question.text}
+                onChange={(e) => update({ text: e.target.value })}
+            />
+            {errors[`${path}.text`] && (
+                <p className={styles.fieldError}>{errors[`${path}.text`]}</p>
+            )}
+
+            <ImageUpload imageId={question.imageId} label="Question image" onChange={(imageId) => update({ imageId })} />
+
+            {question.type === 'WORD_CLOUD' ? (
+                <p className={styles.editorHint}>Players type a word or short phrase; the host screen shows them as a word cloud.</p>
+            ) : ordering ? (
+                <div className={styles.acceptedAnswers}>
+                    <p className={styles.editorHint}>List the items in the correct order; players get them shuffled.</p>
+                    {question.options.map((item, iIndex) => (
+                        <div
+                            key={iIndex}
+                            className={`${styles.optionRow} ${errors[`${path}.options.${iIndex}`] ? styles.invalidOption : ''}`}
+                        >
+                            <span className={styles.itemPosition}>{iIndex + 1}</span>
+                            <input
+                                value={item}
+                                onChange={(e) => updateItems(question.options.map((it, i) => i === iIndex ? e.target.value : it))}
+                                placeholder={`Item ${iIndex + 1}`}
+                            />
+                            <button
+                                onClick={() => moveItem(iIndex, iIndex - 1)}
+                                className={styles.moveItemBtn}
+                                disabled={iIndex === 0}
+                                title="Move up"
+                            >
+                                ▲
+                            </button>
+                            <button
+                                onClick={() => moveItem(iIndex, iIndex + 1)}
+                                className={styles.moveItemBtn}
+                                disabled={iIndex === question.options.length - 1}
+                                title="Move down"
+                            >
+                                ▼
+                            </button>
+                            {question.options.length > QUIZ_LIMITS.minOrderingItems && (
+                                <button
+                                    onClick={() => updateItems(question.options.filter((_, i) => i !== iIndex))}
+                                    className={styles.removeQuestionBtn}
+                                    title="Remove item"
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {question.options.length < QUIZ_LIMITS.maxOrderingItems && (
+                        <button onClick={() => updateItems([...question.options, ''])} className={styles.addAnswerBtn}>
+                            + Add item
+                        </button>
+                    )}
+                    <label className={styles.checkboxField}>
+                        <input
+                            type="checkbox"
+                            checked={ordering.partialCredit}
+                            onChange={(e) => update({ config: { ...ordering, partialCredit: e.target.checked } })}
+                        />
+                        Partial credit for each item in the right place
+                    </label>
+                </div>
+            ) : slider ? (
+                <div className={styles.sliderSettings}>
+                    {sliderNumber('min', 'Minimum')}
+                    {sliderNumber('max', 'Maximum')}
+                    {sliderNumber('step', 'Step')}
+                    {sliderNumber('correctValue', 'Correct value')}
+                    <label className={styles.numberField}>
+                        Scoring
+                        <select
+                            className={styles.typeSelect}
+                            value={slider.scoring}
+                            onChange={(e) => updateSlider({ scoring: e.target.value as SliderConfig['scoring'] })}
+                        >
+                            {SLIDER_SCORING.map(mode => (
+                                <option key={mode} value={mode}>{SCORING_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {slider.scoring !== 'EXACT' && sliderNumber('tolerance', 'Tolerance')}
+                    <label className={styles.numberField}>
+                        Unit
+                        <input
+                            value={slider.unit}
+                            onChange={(e) => updateSlider({ unit: e.target.value })}
+                            placeholder="e.g. km"
+                            maxLength={QUIZ_LIMITS.unitLength}
+                        />
+                    </label>
+                </div>
+            ) : typeIn ? (
+                <div className={styles.acceptedAnswers}>
+                    {typeIn.acceptedAnswers.map((answer, aIndex) => (
+                        <div
+                            key={aIndex}
+                            className={`${styles.optionRow} ${styles.correct} ${errors[`${path}.config.acceptedAnswers.${aIndex}`] ? styles.invalidOption : ''}`}
+                        >
+                            <div className={styles.optionMarker}></div>
+                            <input
+                                value={answer}
+                                onChange={(e) => updateAcceptedAnswer(aIndex, e.target.value)}
+                                placeholder={aIndex === 0 ? 'Accepted answer' : 'Another accepted spelling'}
+                            />
+                            {typeIn.acceptedAnswers.length > 1 && (
+                                <button
+                                    onClick={() => updateTypeIn({ acceptedAnswers: typeIn.acceptedAnswers.filter((_, i) => i !== aIndex) })}
+                                    className={styles.removeQuestionBtn}
+                                    title="Remove accepted answer"
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {typeIn.acceptedAnswers.length < QUIZ_LIMITS.maxAcceptedAnswers && (
+                        <button
+                            onClick={() => updateTypeIn({ acceptedAnswers: [...typeIn.acceptedAnswers, ''] })}
+                            className={styles.addAnswerBtn}
+                        >
+                            + Add accepted answer
+                        </button>
+                    )}
+                    <div className={styles.matchingOptions}>
+                        <label className={styles.checkboxField}>
+                            <input
+                                type="checkbox"
+                                checked={typeIn.ignoreCase}
+                                onChange={(e) => updateTypeIn({ ignoreCase: e.target.checked })}
+                            />
+                            Ignore capitals
+                        </label>
+                        <label className={styles.checkboxField}>
+                            <input
+                                type="checkbox"
+                                checked={typeIn.ignoreAccents}
+                                onChange={(e) => updateTypeIn({ ignoreAccents: e.target.checked })}
+                            />
+                            Ignore accents
+                        </label>
+                        <label className={styles.checkboxField}>
+                            <input
+                                type="checkbox"
+                                checked={typeIn.ignoreWhitespace}
+                                onChange={(e) => updateTypeIn({ ignoreWhitespace: e.target.checked })}
+                            />
+                            Ignore spaces
+                        </label>
+                        <label className={styles.checkboxField}>
+                            Typos allowed
+                            <select
+                                className={styles.typeSelect}
+                                value={typeIn.maxTypos}
+                                onChange={(e) => updateTypeIn({ maxTypos: Number(e.target.value) })}
+                            >
+                                {Array.from({ length: QUIZ_LIMITS.maxTypos + 1 }, (_, n) => (
+                                    <option key={n} value={n}>{n}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                </div>
+            ) : (
+                <div className={styles.optionsGrid}>
+                    {question.options.map((opt, oIndex) => (
+                        <div
+                            key={oIndex}
+                            className={`${styles.optionRow} ${isCorrect(oIndex) ? styles.correct : ''} ${errors[`${path}.options.${oIndex}`] ? styles.invalidOption : ''}`}
+                            onClick={() => markCorrect(oIndex)}
+                        >
+                            <div className={`${styles.optionMarker} ${multiSelect ? styles.squareMarker : ''}`}></div>
+                            {isTrueFalse ? (
+                                <span className={styles.fixedOption}>{opt}</span>
+                            ) : (
+                                <input
+                                    value={opt}
+                                    onChange={(e) => updateOption(oIndex, e.target.value)}
+                                    placeholder={`Option ${oIndex + 1}`}
+                                />
+                            )}
+                            {hasOptionImages(question.type) && (
+                                <ImageUpload
+                                    imageId={question.optionImageIds[oIndex] || null}
+                                    label={`Option ${oIndex + 1} image`}
+                                    compact
+                                    onChange={(imageId) => setOptionImage(oIndex, imageId)}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {unscored && (
+                <label className={`${styles.numberField} ${styles.participationField}`}>
+                    Participation points
+                    <input
+                        type="number"
+                        min={0}
+                        max={QUIZ_LIMITS.maxParticipationPoints}
+                        value={Number.isNaN(unscored.participationPoints) ? '' : unscored.participationPoints}
+                        onChange={(e) => update({ config: { participationPoints: parseInt(e.target.value) } })}
+                        className={errors[`${path}.config.participationPoints`] ? styles.invalidNumber : ''}
+                    />
+                </label>
+            )}
+
+            {!unscored && (
+                <div className={styles.matchingOptions}>
+                    <label className={styles.checkboxField}>
+                        <select
+                            className={styles.typeSelect}
+                            value={question.pointsMode}
+                            onChange={(e) => update({ pointsMode: e.target.value as PointsMode })}
+                            aria-label="Points"
+                        >
+                            {POINTS_MODES.map(mode => (
+                                <option key={mode} value={mode}>{POINTS_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {question.pointsMode !== 'NONE' && (
+                        <label className={styles.checkboxField}>
+                            <input
+                                type="checkbox"
+                                checked={question.speedBonus}
+                                onChange={(e) => update({ speedBonus: e.target.checked })}
+                            />
+                            Bonus for fast answers
+                        </label>
+                    )}
+                </div>
+            )}
+
+            {multiSelect && (
+                <label className={styles.checkboxField}>
+                    <input
+                        type="checkbox"
+                        checked={multiSelect.partialCredit}
+                        onChange={(e) => update({ config: { ...multiSelect, partialCredit: e.target.checked } })}
+                    />
+                    Partial credit for partly correct answers
+                </label>
+            )}
+
+            {hasImages && (
+                <label className={styles.checkboxField}>
+                    <input
+                        type="checkbox"
+                        checked={question.showImagesToPlayers}
+                        onChange={(e) => update({ showImagesToPlayers: e.target.checked })}
+                    />
+                    Also show images on players&apos; devices
+                </label>
+            )}
+
+            {cardErrors.map(message => (
+                <p key={message} className={styles.fieldError}>{message}</p>
+            ))}
+        </div>
+    );
+}
@@ -3,28 +3,15 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import styles from './page.module.css';
-
-interface Question {
-    text: string;
-    options: string[];
-    correctOptionIndex: number;
-    timeLimit: number;
-    type: 'MCQ';
-}
-
-interface JsonQuestion {
-    question: string;
-    options: string[];
-    correct_index: number;
-}
+import { issuesByPath, QuizIssue } from '@/lib/quiz-schema';
+import QuestionEditor, { blankQuestion, EditorQuestion, fromJsonQuestion, JsonQuestion, looksLikeJsonQuestion } from './QuestionEditor';
 
 export default function CreateQuiz() {
     const router = useRouter();
     const [title, setTitle] = useState('');
-    const [questions, setQuestions] = useState<Question[]>([
-        { text: '', options: ['', '', '', ''], correctOptionIndex: 0, timeLimit: 20, type: 'MCQ' }
-    ]);
+    const [questions, setQuestions] = useState<EditorQuestion[]>([blankQuestion()]);
     const [loading, setLoading] = useState(false);
+    const [errors, setErrors] = useState<Record<string, string>>({}); // keyed by field path from the API
     const [showImportModal, setShowImportModal] = useState(false);
     const [jsonInput, setJsonInput] = useState('');
     const [importTitle, setImportTitle] = useState('');
@@ -42,6 +29,47 @@ export default function CreateQuiz() {
     "question": "Which planet is closest to the sun?",
     "options": ["Venus", "Earth", "Mercury", "Mars"],
     "correct_index": 2
+  },
+  {
+    "question": "The sun is a star.",
+    "type": "true_false",
+    "answer": true
+  },
+  {
+    "question": "Which of these are primary colors?",
+    "type": "multi_select",
+    "options": ["Red", "Green", "Blue", "Yellow"],
+    "correct_indexes": [0, 2, 3],
+    "partial_credit": true
+  },
+  {
+    "question": "Which element has the symbol Fe?",
+    "type": "type_in",
+    "answers": ["Iron"],
+    "max_typos": 1
+  },
+  {
+    "question": "In what year did the Berlin Wall fall?",
+    "type": "slider",
+    "min": 1950,
+    "max": 2000,
+    "answer": 1989,
+    "tolerance": 2
+  },
+  {
+    "question": "Put these planets in order from the sun",
+    "type": "ordering",
+    "items": ["Mercury", "Venus", "Earth", "Mars"]
+  },
+  {
+    "question": "How are you feeling today?",
+    "type": "poll",
+    "options": ["Great", "Okay", "Tired"]
+  },
+  {
+    "question": "One word to describe this week",
+    "type": "word_cloud",
+    "participation_points": 100
   }
 ]`;
 
@@ -58,12 +86,7 @@ export default function CreateQuiz() {
                 setQuestionCount(0);
                 return;
             }
-            const valid = parsed.every((q: any) =>
-                q.question &&
-                Array.isArray(q.options) &&
-                q.options.length >= 2 &&
-                typeof q.correct_index === 'number'
-            );
+            const valid = parsed.every(looksLikeJsonQuestion);
             setJsonValid(valid && parsed.length > 0);
             setQuestionCount(valid ? parsed.length : 0);
         } catch {
@@ -92,18 +115,7 @@ export default function CreateQuiz() {
             if (parsed.length === 0) {
                 throw new Error('JSON must contain at least one question');
             }
-            const importedQuestions: Question[] = parsed.map((q, index) => {
-                if (!q.question || !Array.isArray(q.options) || typeof q.correct_index !== 'number') {
-                    throw new Error(`Invalid question format at index ${index}`);
-                }
-                return {
-                    text: q.question,
-                    options: q.options.slice(0, 4),
-                    correctOptionIndex: q.correct_index,
-                    timeLimit: 20,
-                    type: 'MCQ' as const
-                };
-            });
+            const importedQuestions = parsed.map(fromJsonQuestion);
             setTitle(importTitle.trim());
             setQuestions(importedQuestions);
             setShowImportModal(false);
@@ -115,23 +127,16 @@ export default function CreateQuiz() {
     };
 
     const addQuestion = () => {
-        setQuestions([...questions, { text: '', options: ['', '', '', ''], correctOptionIndex: 0, timeLimit: 20, type: 'MCQ' }]);
+        setQuestions([...questions, blankQuestion()]);
     };
 
-    const updateQuestion = (index: number, field: keyof Question, value: any) => {
-        const newQuestions = [...questions];
-        newQuestions[index] = { ...newQuestions[index], [field]: value };
-        setQuestions(newQuestions);
-    };
-
-    const updateOption = (qIndex: number, oIndex: number, value: string) => {
-        const newQuestions = [...questions];
-        newQuestions[qIndex].options[oIndex] = value;
-        setQuestions(newQuestions);
+    const updateQuestion = (index: number, question: EditorQuestion) => {
+        setQuestions(questions.map((q, i) => i === index ? question : q));
     };
 
     const saveQuiz = async () => {
         setLoading(true);
+        setErrors({});
         try {
             const res = await fetch('/api/quizzes', {
                 method: 'POST',
@@ -140,6 +145,11 @@ export default function CreateQuiz() {
             });
             if (res.ok) {
                 router.push('/host/dashboard');
+            } else if (res.status === 401) {
+                router.push('/host/login');
+            } else if (res.status === 400) {
+                const data: { issues?: QuizIssue[] } = await res.json();
+                setErrors(issuesByPath(data.issues || []));
             } else {
                 alert('Failed to save');
             }
@@ -153,12 +163,15 @@ export default function CreateQuiz() {
     return (
         <div className={styles.container}>
             <header className={styles.header}>
-                <input
-                    className={styles.titleInput}
-                    placeholder="Enter Quiz Title..."
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                />
+                <div className={styles.titleField}>
+                    <input
+                        className={styles.titleInput}
+                        placeholder="Enter Quiz Title..."
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                    />
+                    {errors.title && <p className={styles.fieldError}>{errors.title}</p>}
+                </div>
                 <div className={styles.headerActions}>
                     <button onClick={() => setShowImportModal(true)} className={styles.importBtn}>
                         Import JSON
@@ -209,44 +222,17 @@ export default function CreateQuiz() {
 
             <div className={styles.questionsList}>
                 {questions.map((q, qIndex) => (
-                    <div key={qIndex} className={styles.questionCard}>
-                        <div className={styles.cardHeader}>
-                            <span>Question {qIndex + 1}</span>
-                            <input
-                                type="number"
-                                value={q.timeLimit}
-                                onChange={(e) => updateQuestion(qIndex, 'timeLimit', parseInt(e.target.value))}
-                                className={styles.timeInput}
-                            />
-                            <span className={styles.secondsLabel}>sec</span>
-                        </div>
-
-                        <input
-                            className={styles.questionInput}
-                            placeholder="Question text?"
-                            value={q.text}
-                            onChange={(e) => updateQuestion(qIndex, 'text', e.target.value)}
-                        />
-
-                        <div className={styles.optionsGrid}>
-                            {q.options.map((opt, oIndex) => (
-                                <div
-                                    key={oIndex}
-                                    className={`${styles.optionRow} ${q.correctOptionIndex === oIndex ? styles.correct : ''}`}
-                                    onClick={() => updateQuestion(qIndex, 'correctOptionIndex', oIndex)}
-                                >
-                                    <div className={styles.optionMarker}></div>
-                                    <input
-                                        value={opt}
-                                        onChange={(e) => updateOption(qIndex, oIndex, e.target.value)}
-                                        placeholder={`Option ${oIndex + 1}`}
-                                    />
-                                </div>
-                            ))}
-                        </div>
-                    </div>
+                    <QuestionEditor
+                        key={qIndex}
+                        question={q}
+                        index={qIndex}
+                        errors={errors}
+                        onChange={(question) => updateQuestion(qIndex, question)}
+                    />
                 ))}
 
+                {errors.questions && <p className={styles.fieldError}>{errors.questions}</p>}
+
                 <button onClick={addQuestion} className={styles.addBtn}>
                     + Add Question
                 </button>
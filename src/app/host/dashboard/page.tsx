@@ -1,24 +1,61 @@
 "use client";
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import styles from "./page.module.css";
 import { useEffect, useState } from "react";
 
+interface PastSession {
+    id: string;
+    joinCode: string;
+    status: string;
+    mode: string;
+    startedAt: string | null;
+    closesAt: string | null;
+    quiz: { title: string };
+    _count: { players: number };
+}
+
 export default function HostDashboard() {
+    const router = useRouter();
     const [quizzes, setQuizzes] = useState<any[]>([]);
+    const [sessions, setSessions] = useState<PastSession[]>([]);
+    const [email, setEmail] = useState('');
 
     useEffect(() => {
+        fetch('/api/auth/me')
+            .then(res => {
+                if (res.status === 401) {
+                    router.push('/host/login');
+                    return null;
+                }
+                return res.json();
+            })
+            .then(data => data && setEmail(data.email));
+
         fetch('/api/quizzes')
-            .then(res => res.json())
+            .then(res => res.ok ? res.json() : [])
             .then(data => setQuizzes(data));
-    }, []);
+
+        fetch('/api/sessions')
+            .then(res => res.ok ? res.json() : [])
+            .then(data => setSessions(data));
+    }, [router]);
+
+    const logout = async () => {
+        await fetch('/api/auth/logout', { method: 'POST' });
+        router.push('/host/login');
+    };
 
     return (
         <div className={styles.container}>
             <header className={styles.header}>
                 <h1 className={styles.logo}>VIBEHOOT <span>HOST</span></h1>
                 <div className={styles.userControls}>
-                    <span>My Quizzes</span>
+                    <span>{email}</span>
+                    <button onClick={logout} className={styles.logoutBtn}>
+                        Log Out
+                    </button>
                 </div>
             </header>
 
@@ -42,6 +79,12 @@ export default function HostDashboard() {
                                 <Link href={`/host/game/${quiz.id}`} className={styles.playBtn}>
                                     Host Game
                                 </Link>
+                                <Link href={`/host/game/${quiz.id}?mode=teams`} className={styles.editBtn}>
+                                    Teams
+                                </Link>
+                                <Link href={`/host/assign/${quiz.id}`} className={styles.editBtn}>
+                                    Assign
+                                </Link>
                             </div>
                         </div>
                     ))}
@@ -51,6 +94,35 @@ export default function HostDashboard() {
                         </div>
                     )}
                 </div>
+
+                {sessions.length > 0 && (
+                    <section className={styles.sessions}>
+                        <h2>Past Games</h2>
+                        <div className={styles.sessionList}>
+                            {sessions.map((session) => (
+                                <Link
+                                    key={session.id}
+                                    // Live games still running open in the phone controller
+                                    href={session.mode === 'LIVE' && session.status !== 'ENDED'
+                                        ? `/host/control/${session.joinCode}`
+                                        : `/host/sessions/${session.id}`}
+                                    className={styles.sessionRow}
+                                >
+                                    <span className={styles.sessionTitle}>{session.quiz.title}</span>
+                                    <span>{session.startedAt ? new Date(session.startedAt).toLocaleString() : 'Not started'}</span>
+                                    <span>{session._count.players} players</span>
+                                    <span className={styles.sessionStatus}>
+                                        {session.mode === 'ASSIGNMENT' && session.status !== 'ENDED' && session.closesAt
+                                            ? `OPEN UNTIL ${new Date(session.closesAt).toLocaleDateString()}`
+                                            : session.mode === 'LIVE' && session.status !== 'ENDED'
+                                                ? `LIVE · ${session.joinCode}`
+                                                : session.status}
+                                    </span>
+                                </Link>
+                            ))}
+                        </div>
+                    </section>
+                )}
             </main>
         </div>
     );
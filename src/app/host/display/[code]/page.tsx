@@ -0,0 +1,10 @@
+"use client";
+
+import { useParams } from 'next/navigation';
+import HostScreen from '../../game/[id]/HostScreen';
+
+// The projector screen of a running game; it has no controls, the host drives it from another screen
+export default function GameDisplay() {
+    const params = useParams();
+    return <HostScreen watchCode={String(params.code)} display />;
+}
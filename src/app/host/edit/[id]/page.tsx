@@ -3,19 +3,39 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import styles from '../../create/page.module.css';
+import { issuesByPath, QuizIssue } from '@/lib/quiz-schema';
+import type { RevisionDiff, RevisionQuestion } from '@/lib/quiz-revisions';
+import QuestionEditor, {
+    blankQuestion, EditorQuestion, fromJsonQuestion, inCorrectOrder, JsonQuestion, looksLikeJsonQuestion
+} from '../../create/QuestionEditor';
 
-interface Question {
-    text: string;
-    options: string[];
-    correctOptionIndex: number;
-    timeLimit: number;
-    type: 'MCQ';
+interface Revision {
+    id: string;
+    number: number;
+    title: string;
+    questionCount: number;
+    restoredFrom: number | null;
+    createdAt: string;
+    sessionCount: number;
+    diff: RevisionDiff;
 }
 
-interface JsonQuestion {
-    question: string;
-    options: string[];
-    correct_index: number;
+// Questions as the API returns them (the saved shape a revision keeps), in the form the editor works on
+function toEditorQuestion(q: RevisionQuestion): EditorQuestion {
+    return inCorrectOrder({
+        id: q.id,
+        text: q.text,
+        options: q.options,
+        correctOptionIndex: q.correctOptionIndex,
+        timeLimit: q.timeLimit,
+        type: q.type,
+        config: q.config,
+        imageId: q.imageId,
+        optionImageIds: q.optionImageIds,
+        showImagesToPlayers: q.showImagesToPlayers,
+        pointsMode: q.pointsMode,
+        speedBonus: q.speedBonus
+    });
 }
 
 export default function EditQuiz() {
@@ -24,8 +44,9 @@ export default function EditQuiz() {
     const quizId = params.id as string;
 
     const [title, setTitle] = useState('');
-    const [questions, setQuestions] = useState<Question[]>([]);
+    const [questions, setQuestions] = useState<EditorQuestion[]>([]);
     const [loading, setLoading] = useState(false);
+    const [errors, setErrors] = useState<Record<string, string>>({}); // keyed by field path from the API
     const [initialLoading, setInitialLoading] = useState(true);
     const [showImportModal, setShowImportModal] = useState(false);
     const [jsonInput, setJsonInput] = useState('');
@@ -33,6 +54,8 @@ export default function EditQuiz() {
     const [jsonValid, setJsonValid] = useState<boolean | null>(null);
     const [questionCount, setQuestionCount] = useState(0);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+    const [revisions, setRevisions] = useState<Revision[] | null>(null); // loaded when the history opens
+    const [restoring, setRestoring] = useState(false);
 
     const exampleJson = `[
   {
@@ -44,6 +67,47 @@ export default function EditQuiz() {
     "question": "Which planet is closest to the sun?",
     "options": ["Venus", "Earth", "Mercury", "Mars"],
     "correct_index": 2
+  },
+  {
+    "question": "The sun is a star.",
+    "type": "true_false",
+    "answer": true
+  },
+  {
+    "question": "Which of these are primary colors?",
+    "type": "multi_select",
+    "options": ["Red", "Green", "Blue", "Yellow"],
+    "correct_indexes": [0, 2, 3],
+    "partial_credit": true
+  },
+  {
+    "question": "Which element has the symbol Fe?",
+    "type": "type_in",
+    "answers": ["Iron"],
+    "max_typos": 1
+  },
+  {
+    "question": "In what year did the Berlin Wall fall?",
+    "type": "slider",
+    "min": 1950,
+    "max": 2000,
+    "answer": 1989,
+    "tolerance": 2
+  },
+  {
+    "question": "Put these planets in order from the sun",
+    "type": "ordering",
+    "items": ["Mercury", "Venus", "Earth", "Mars"]
+  },
+  {
+    "question": "How are you feeling today?",
+    "type": "poll",
+    "options": ["Great", "Okay", "Tired"]
+  },
+  {
+    "question": "One word to describe this week",
+    "type": "word_cloud",
+    "participation_points": 100
   }
 ]`;
 
@@ -54,13 +118,7 @@ export default function EditQuiz() {
                 if (res.ok) {
                     const quiz = await res.json();
                     setTitle(quiz.title);
-                    setQuestions(quiz.questions.map((q: any) => ({
-                        text: q.text,
-                        options: q.options,
-                        correctOptionIndex: q.correctOptionIndex,
-                        timeLimit: q.timeLimit,
-                        type: q.type
-                    })));
+                    setQuestions(quiz.questions.map(toEditorQuestion));
                 } else {
                     alert('Quiz not found');
                     router.push('/host/dashboard');
@@ -88,12 +146,7 @@ export default function EditQuiz() {
                 setQuestionCount(0);
                 return;
             }
-            const valid = parsed.every((q: any) =>
-                q.question &&
-                Array.isArray(q.options) &&
-                q.options.length >= 2 &&
-                typeof q.correct_index === 'number'
-            );
+            const valid = parsed.every(looksLikeJsonQuestion);
             setJsonValid(valid && parsed.length > 0);
             setQuestionCount(valid ? parsed.length : 0);
         } catch {
@@ -118,18 +171,7 @@ export default function EditQuiz() {
             if (parsed.length === 0) {
                 throw new Error('JSON must contain at least one question');
             }
-            const importedQuestions: Question[] = parsed.map((q, index) => {
-                if (!q.question || !Array.isArray(q.options) || typeof q.correct_index !== 'number') {
-                    throw new Error(`Invalid question format at index ${index}`);
-                }
-                return {
-                    text: q.question,
-                    options: q.options.slice(0, 4),
-                    correctOptionIndex: q.correct_index,
-                    timeLimit: 20,
-                    type: 'MCQ' as const
-                };
-            });
+            const importedQuestions = parsed.map(fromJsonQuestion);
             // Replace all existing questions
             setQuestions(importedQuestions);
             setShowImportModal(false);
@@ -142,7 +184,7 @@ export default function EditQuiz() {
     };
 
     const addQuestion = () => {
-        setQuestions([...questions, { text: '', options: ['', '', '', ''], correctOptionIndex: 0, timeLimit: 20, type: 'MCQ' }]);
+        setQuestions([...questions, blankQuestion()]);
     };
 
     const removeQuestion = (index: number) => {
@@ -151,20 +193,13 @@ export default function EditQuiz() {
         }
     };
 
-    const updateQuestion = (index: number, field: keyof Question, value: any) => {
-        const newQuestions = [...questions];
-        newQuestions[index] = { ...newQuestions[index], [field]: value };
-        setQuestions(newQuestions);
-    };
-
-    const updateOption = (qIndex: number, oIndex: number, value: string) => {
-        const newQuestions = [...questions];
-        newQuestions[qIndex].options[oIndex] = value;
-        setQuestions(newQuestions);
+    const updateQuestion = (index: number, question: EditorQuestion) => {
+        setQuestions(questions.map((q, i) => i === index ? question : q));
     };
 
     const saveQuiz = async () => {
         setLoading(true);
+        setErrors({});
         try {
             const res = await fetch(`/api/quizzes/${quizId}`, {
                 method: 'PUT',
@@ -173,6 +208,11 @@ export default function EditQuiz() {
             });
             if (res.ok) {
                 router.push('/host/dashboard');
+            } else if (res.status === 401) {
+                router.push('/host/login');
+            } else if (res.status === 400) {
+                const data: { issues?: QuizIssue[] } = await res.json();
+                setErrors(issuesByPath(data.issues || []));
             } else {
                 alert('Failed to save');
             }
@@ -183,6 +223,44 @@ export default function EditQuiz() {
         }
     };
 
+    const openHistory = async () => {
+        setRevisions([]);
+        try {
+            const res = await fetch(`/api/quizzes/${quizId}/revisions`);
+            if (res.ok) {
+                setRevisions(await res.json());
+            } else {
+                setRevisions(null);
+                alert('Failed to load history');
+            }
+        } catch {
+            setRevisions(null);
+            alert('Error loading history');
+        }
+    };
+
+    // Restoring saves the old version again as the newest one, so it can be undone the same way
+    const restoreRevision = async (revision: Revision) => {
+        if (!confirm(`Restore version ${revision.number}? Changes you haven't saved will be lost.`)) return;
+        setRestoring(true);
+        try {
+            const res = await fetch(`/api/quizzes/${quizId}/revisions/${revision.id}/restore`, { method: 'POST' });
+            const data = await res.json();
+            if (res.ok) {
+                setTitle(data.title);
+                setQuestions(data.questions.map(toEditorQuestion));
+                setErrors({});
+                setRevisions(null);
+            } else {
+                alert(data.error || 'Failed to restore');
+            }
+        } catch {
+            alert('Error restoring');
+        } finally {
+            setRestoring(false);
+        }
+    };
+
     const deleteQuiz = async () => {
         try {
             const res = await fetch(`/api/quizzes/${quizId}`, {
@@ -209,16 +287,22 @@ export default function EditQuiz() {
     return (
         <div className={styles.container}>
             <header className={styles.header}>
-                <input
-                    className={styles.titleInput}
-                    placeholder="Enter Quiz Title..."
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                />
+                <div className={styles.titleField}>
+                    <input
+                        className={styles.titleInput}
+                        placeholder="Enter Quiz Title..."
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                    />
+                    {errors.title && <p className={styles.fieldError}>{errors.title}</p>}
+                </div>
                 <div className={styles.headerActions}>
                     <button onClick={() => setShowDeleteConfirm(true)} className={styles.deleteBtn}>
                         Delete
                     </button>
+                    <button onClick={openHistory} className={styles.importBtn}>
+                        History
+                    </button>
                     <button onClick={() => setShowImportModal(true)} className={styles.importBtn}>
                         Import JSON
                     </button>
@@ -247,6 +331,48 @@ export default function EditQuiz() {
                 </div>
             )}
 
+            {revisions && (
+                <div className={styles.modalOverlay} onClick={() => setRevisions(null)}>
+                    <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+                        <h2>Version History</h2>
+                        {revisions.length === 0 && <p className={styles.modalHint}>Loading...</p>}
+                        <ol className={styles.revisionList}>
+                            {revisions.map((revision, index) => (
+                                <li key={revision.id} className={styles.revision}>
+                                    <div className={styles.revisionHeader}>
+                                        <div>
+                                            <strong>Version {revision.number}</strong>
+                                            <span className={styles.revisionMeta}>
+                                                {new Date(revision.createdAt).toLocaleString()} · {revision.questionCount} questions
+                                                {revision.restoredFrom !== null && ` · Restored from version ${revision.restoredFrom}`}
+                                                {revision.sessionCount > 0 && ` · Played ${revision.sessionCount} times`}
+                                            </span>
+                                        </div>
+                                        {index === 0 ? (
+                                            <span className={styles.revisionMeta}>Current</span>
+                                        ) : (
+                                            <button
+                                                onClick={() => restoreRevision(revision)}
+                                                className={styles.restoreBtn}
+                                                disabled={restoring}
+                                            >
+                                                Restore
+                                            </button>
+                                        )}
+                                    </div>
+                                    <RevisionChanges diff={revision.diff} first={index === revisions.length - 1} />
+                                </li>
+                            ))}
+                        </ol>
+                        <div className={styles.modalActions}>
+                            <button onClick={() => setRevisions(null)} className={styles.cancelBtn}>
+                                Close
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {showImportModal && (
                 <div className={styles.modalOverlay} onClick={() => setShowImportModal(false)}>
                     <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
@@ -284,53 +410,18 @@ export default function EditQuiz() {
 
             <div className={styles.questionsList}>
                 {questions.map((q, qIndex) => (
-                    <div key={qIndex} className={styles.questionCard}>
-                        <div className={styles.cardHeader}>
-                            <span>Question {qIndex + 1}</span>
-                            <input
-                                type="number"
-                                value={q.timeLimit}
-                                onChange={(e) => updateQuestion(qIndex, 'timeLimit', parseInt(e.target.value))}
-                                className={styles.timeInput}
-                            />
-                            <span className={styles.secondsLabel}>sec</span>
-                            {questions.length > 1 && (
-                                <button
-                                    onClick={() => removeQuestion(qIndex)}
-                                    className={styles.removeQuestionBtn}
-                                    title="Remove question"
-                                >
-                                    ✕
-                                </button>
-                            )}
-                        </div>
-
-                        <input
-                            className={styles.questionInput}
-                            placeholder="Question text?"
-                            value={q.text}
-                            onChange={(e) => updateQuestion(qIndex, 'text', e.target.value)}
-                        />
-
-                        <div className={styles.optionsGrid}>
-                            {q.options.map((opt, oIndex) => (
-                                <div
-                                    key={oIndex}
-                                    className={`${styles.optionRow} ${q.correctOptionIndex === oIndex ? styles.correct : ''}`}
-                                    onClick={() => updateQuestion(qIndex, 'correctOptionIndex', oIndex)}
-                                >
-                                    <div className={styles.optionMarker}></div>
-                                    <input
-                                        value={opt}
-                                        onChange={(e) => updateOption(qIndex, oIndex, e.target.value)}
-                                        placeholder={`Option ${oIndex + 1}`}
-                                    />
-                                </div>
-                            ))}
-                        </div>
-                    </div>
+                    <QuestionEditor
+                        key={qIndex}
+                        question={q}
+                        index={qIndex}
+                        errors={errors}
+                        onChange={(question) => updateQuestion(qIndex, question)}
+                        onRemove={questions.length > 1 ? () => removeQuestion(qIndex) : undefined}
+                    />
                 ))}
 
+                {errors.questions && <p className={styles.fieldError}>{errors.questions}</p>}
+
                 <button onClick={addQuestion} className={styles.addBtn}>
                     + Add Question
                 </button>
@@ -338,3 +429,38 @@ export default function EditQuiz() {
         </div>
     );
 }
+
+// What a revision changed compared to the one before it
+function RevisionChanges({ diff, first }: { diff: RevisionDiff; first: boolean }) {
+    if (first) return <p className={styles.revisionMeta}>First saved version</p>;
+
+    const unchanged = !diff.title && !diff.reordered && diff.added.length + diff.removed.length + diff.changed.length === 0;
+    if (unchanged) return <p className={styles.revisionMeta}>No changes</p>;
+
+    return (
+        <ul className={styles.revisionChanges}>
+            {diff.title && (
+                <li>Title: <del>{diff.title.before}</del> → <ins>{diff.title.after}</ins></li>
+            )}
+            {diff.added.map(q => (
+                <li key={`added-${q.index}`} className={styles.addedChange}>+ Q{q.index + 1}: {q.text}</li>
+            ))}
+            {diff.removed.map(q => (
+                <li key={`removed-${q.index}`} className={styles.removedChange}>− Q{q.index + 1}: {q.text}</li>
+            ))}
+            {diff.changed.map(q => (
+                <li key={q.id}>
+                    Q{q.index + 1}: {q.text}
+                    <ul>
+                        {q.fields.map(change => (
+                            <li key={change.field}>
+                                {change.field}: <del>{change.before}</del> → <ins>{change.after}</ins>
+                            </li>
+                        ))}
+                    </ul>
+                </li>
+            ))}
+            {diff.reordered && <li>Questions reordered</li>}
+        </ul>
+    );
+}
@@ -0,0 +1,767 @@
+"use client";
+
+import { useEffect, useState, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { io, Socket } from 'socket.io-client';
+import type {
+    HostSnapshot, LeaderboardEntry, QuestionResults, SliderHistogram, TeamLeaderboardEntry, TypedAnswerGroup
+} from '@/lib/game-engine';
+import { sliderRange } from '@/lib/grading';
+import { TEAM_LIMITS, TEAM_SCORING } from '@/lib/socket-protocol';
+import type {
+    ClientToServerEvents, HostQuestion, LobbyPlayer, ServerToClientEvents, TeamSettings
+} from '@/lib/socket-protocol';
+import { uploadUrl } from '@/lib/quiz-schema';
+import type { PointsMode, QuestionType, SliderRange } from '@/lib/quiz-schema';
+import styles from './page.module.css';
+
+interface Player extends LobbyPlayer {
+    connected?: boolean;
+}
+
+interface Question {
+    type: QuestionType;
+    text: string;
+    options: string[];
+    slider?: SliderRange;
+    imageId: string | null;
+    optionImageIds: string[];
+    pointsMode: PointsMode;
+    timeLimit: number;
+}
+
+const OPTION_COLORS = ['#E21B3C', '#1368CE', '#D89E00', '#26890C'];
+const TRUE_FALSE_COLORS = ['#1368CE', '#E21B3C']; // same as the player buttons
+const ORDERING_COLOR = '#46178F'; // up to six items, so they don't get answer colors
+const TEAM_COLORS = ['#E21B3C', '#1368CE', '#D89E00', '#26890C', '#864CBF', '#0AA3A3'];
+
+const TEAM_SCORING_LABELS: Record<TeamSettings['scoring'], string> = {
+    AVERAGE: 'Average of member scores',
+    SUM: 'Sum of member scores'
+};
+
+const DEFAULT_TEAMS: TeamSettings = { names: ['Red', 'Blue'], scoring: 'AVERAGE', choice: false };
+
+const optionColor = (question: Question, index: number) => {
+    if (question.type === 'ORDERING') return ORDERING_COLOR;
+    return (question.type === 'TRUE_FALSE' ? TRUE_FALSE_COLORS : OPTION_COLORS)[index];
+};
+
+// Sizes each word by how many players sent it, relative to the most popular one
+function WordCloud({ words }: { words: TypedAnswerGroup[] }) {
+    if (words.length === 0) return <p className={styles.questionHint}>Waiting for answers…</p>;
+    const top = words[0].count;
+    return (
+        <div className={styles.wordCloud}>
+            {words.map((word, index) => (
+                <span
+                    key={word.text}
+                    className={styles.cloudWord}
+                    style={{
+                        fontSize: `${1 + (word.count / top) * 2.5}rem`,
+                        color: OPTION_COLORS[index % OPTION_COLORS.length]
+                    }}
+                >
+                    {word.text}
+                </span>
+            ))}
+        </div>
+    );
+}
+
+interface HostScreenProps {
+    quizId?: string; // creates a new game of this quiz
+    watchCode?: string; // or opens one that is already running
+    teamMode?: boolean; // the teams are set up before the game is created
+    display?: boolean; // read-only, for the projector, while another screen has the controls
+}
+
+// The host's view of a game. Every screen of the host's follows the game through the
+// broadcasts, so whichever one a control is used on, they all move on together.
+export default function HostScreen({ quizId, watchCode, teamMode = false, display = false }: HostScreenProps) {
+    const [joinCode, setJoinCode] = useState<string>('');
+    const [hostToken, setHostToken] = useState<string>('');
+    const [players, setPlayers] = useState<Player[]>([]);
+    const [gameState, setGameState] = useState<'SETUP' | 'LOBBY' | 'QUESTION' | 'RESULTS' | 'LEADERBOARD' | 'ENDED'>(
+        teamMode ? 'SETUP' : 'LOBBY'
+    );
+    const [teams, setTeams] = useState<TeamSettings>(DEFAULT_TEAMS); // being set up, then as the game was created
+    const [teamGame, setTeamGame] = useState(teamMode);
+    const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
+    const [questionIndex, setQuestionIndex] = useState(0);
+    const [totalQuestions, setTotalQuestions] = useState(0);
+    const [timeLeft, setTimeLeft] = useState(0);
+    const [deadline, setDeadline] = useState(0); // in local clock time
+    const [answerCount, setAnswerCount] = useState(0);
+    const [answerDistribution, setAnswerDistribution] = useState<number[]>([0, 0, 0, 0]);
+    const [correctOptionIndexes, setCorrectOptionIndexes] = useState<number[]>([]);
+    const [acceptedAnswers, setAcceptedAnswers] = useState<string[]>([]);
+    const [typedAnswers, setTypedAnswers] = useState<TypedAnswerGroup[]>([]);
+    const [histogram, setHistogram] = useState<SliderHistogram | null>(null);
+    const [ordering, setOrdering] = useState<QuestionResults['ordering'] | null>(null);
+    const [correctCount, setCorrectCount] = useState(0);
+    const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+    const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[] | null>(null);
+    const [sessionId, setSessionId] = useState('');
+    const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
+    const timerRef = useRef<NodeJS.Timeout | null>(null);
+    const teamsRef = useRef<TeamSettings | null>(null); // set once a team game is set up
+    const joinCodeRef = useRef(watchCode ?? ''); // for the connect handler, which would see a stale code
+
+    const showQuestion = useCallback(({ question, questionIndex, totalQuestions, deadline, serverTime }: HostQuestion) => {
+        setCurrentQuestion({
+            type: question.type,
+            text: question.text,
+            options: question.options,
+            slider: sliderRange(question),
+            imageId: question.imageId,
+            optionImageIds: question.optionImageIds,
+            pointsMode: question.pointsMode,
+            timeLimit: question.timeLimit
+        });
+        setQuestionIndex(questionIndex);
+        setTotalQuestions(totalQuestions);
+        setTimeLeft(question.timeLimit);
+        // Translate the server deadline into local time to cancel out clock skew
+        setDeadline(deadline - serverTime + Date.now());
+        setAnswerCount(0);
+        setAnswerDistribution(question.options.map(() => 0));
+        setTypedAnswers([]);
+        setGameState('QUESTION');
+    }, []);
+
+    const applyResults = useCallback((results: QuestionResults) => {
+        setAnswerDistribution(results.answerDistribution);
+        setCorrectOptionIndexes(results.correctOptionIndexes);
+        setAcceptedAnswers(results.acceptedAnswers ?? []);
+        setTypedAnswers(results.typedAnswers ?? []);
+        setHistogram(results.histogram ?? null);
+        setOrdering(results.ordering ?? null);
+        setCorrectCount(results.correctCount);
+    }, []);
+
+    // Catches up with a game already under way
+    const applySnapshot = useCallback((snapshot: HostSnapshot) => {
+        setSessionId(snapshot.sessionId);
+        setPlayers(snapshot.players);
+        setTeamGame(snapshot.teams !== null);
+        if (snapshot.teams) setTeams(snapshot.teams);
+
+        if (snapshot.question) showQuestion(snapshot.question);
+        setAnswerCount(snapshot.answerCount);
+        if (snapshot.results) applyResults(snapshot.results);
+
+        switch (snapshot.status) {
+            case 'SHOWING_QUESTION':
+                break; // showQuestion already put it up
+            case 'SHOWING_RESULTS':
+                setGameState('RESULTS');
+                break;
+            case 'ENDED':
+                setLeaderboard(snapshot.standings?.leaderboard ?? []);
+                setTeamLeaderboard(snapshot.standings?.teamLeaderboard ?? null);
+                setGameState('ENDED');
+                break;
+            default:
+                setGameState('LOBBY');
+        }
+    }, [applyResults, showQuestion]);
+
+    // The question itself arrives through the host_question_start broadcast, like on the other screens
+    const nextQuestion = useCallback(() => {
+        if (socketRef.current && joinCode) {
+            socketRef.current.emit('next_question', { joinCode, hostToken }, (res) => {
+                if (res.success && res.ended) setSessionId(res.sessionId);
+                if (!res.success) console.error('Failed to move on:', res.error);
+            });
+        }
+    }, [joinCode, hostToken]);
+
+    // Closes the question early; the results arrive through the question_results broadcast
+    const showResults = useCallback(() => {
+        if (socketRef.current && joinCode) {
+            socketRef.current.emit('show_results', { joinCode, hostToken }, (res) => {
+                if (!res.success) console.error('Failed to show results:', res.error);
+            });
+        }
+    }, [joinCode, hostToken]);
+
+    // The standings arrive through the leaderboard_update broadcast
+    const showLeaderboard = useCallback(() => {
+        if (socketRef.current && joinCode) {
+            socketRef.current.emit('get_leaderboard', { joinCode, hostToken }, (res) => {
+                if (!res.success) console.error('Failed to show leaderboard:', res.error);
+            });
+        }
+    }, [joinCode, hostToken]);
+
+    const createGame = useCallback((socket: Socket<ServerToClientEvents, ClientToServerEvents>) => {
+        if (!quizId) return;
+        const teamSettings = teamsRef.current ?? undefined;
+        socket.emit('create_game', { quizId, teams: teamSettings }, (response) => {
+            if (response.success) {
+                joinCodeRef.current = response.joinCode;
+                setJoinCode(response.joinCode);
+                setHostToken(response.hostToken);
+                setGameState('LOBBY');
+            } else {
+                alert('Failed to create game: ' + response.error);
+            }
+        });
+    }, [quizId]);
+
+    const watchGame = useCallback((socket: Socket<ServerToClientEvents, ClientToServerEvents>, code: string) => {
+        socket.emit('watch_game', { joinCode: code }, (response) => {
+            if (response.success) {
+                setJoinCode(code);
+                setHostToken(response.hostToken);
+                applySnapshot(response.snapshot);
+            } else {
+                alert('Could not open the game: ' + response.error);
+            }
+        });
+    }, [applySnapshot]);
+
+    useEffect(() => {
+        const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io();
+        socketRef.current = socket;
+
+        socket.on('connect', () => {
+            console.log('Connected to server');
+            // A reconnect has left the game's rooms, so an existing game is watched again rather than recreated
+            if (joinCodeRef.current) {
+                watchGame(socket, joinCodeRef.current);
+            } else if (!teamMode || teamsRef.current) {
+                createGame(socket);
+            }
+        });
+
+        socket.on('host_question_start', (question) => {
+            showQuestion(question);
+        });
+
+        socket.on('player_joined', (player) => {
+            setPlayers(prev => {
+                if (prev.find(p => p.id === player.id)) return prev;
+                return [...prev, player];
+            });
+        });
+
+        socket.on('answer_count_update', ({ answerCount: count }) => {
+            setAnswerCount(count);
+        });
+
+        // Polls and word clouds fill in on screen while players answer
+        socket.on('live_results', (results) => {
+            setAnswerDistribution(results.answerDistribution);
+            setTypedAnswers(results.typedAnswers ?? []);
+        });
+
+        // The server closes the question when time is up or everyone has answered
+        socket.on('question_results', (results) => {
+            if (timerRef.current) clearInterval(timerRef.current);
+            applyResults(results);
+            setGameState('RESULTS');
+        });
+
+        socket.on('leaderboard_update', (standings) => {
+            setLeaderboard(standings.leaderboard);
+            setTeamLeaderboard(standings.teamLeaderboard);
+            setGameState('LEADERBOARD');
+        });
+
+        socket.on('game_ended', (standings) => {
+            setLeaderboard(standings.leaderboard);
+            setTeamLeaderboard(standings.teamLeaderboard);
+            setGameState('ENDED');
+        });
+
+        // Players keep their seat while offline so they can resume where they left off
+        socket.on('player_disconnected', ({ playerId }) => {
+            setPlayers(prev => prev.map(p => p.id === playerId ? { ...p, connected: false } : p));
+        });
+
+        socket.on('team_changed', ({ playerId, team }) => {
+            setPlayers(prev => prev.map(p => p.id === playerId ? { ...p, team } : p));
+        });
+
+        // Kicked or banned; they are gone from the game and its results
+        socket.on('player_removed', ({ playerId }) => {
+            setPlayers(prev => prev.filter(p => p.id !== playerId));
+            setLeaderboard(prev => prev.filter(p => p.id !== playerId));
+        });
+
+        socket.on('player_reconnected', (player) => {
+            setPlayers(prev => prev.some(p => p.id === player.id)
+                ? prev.map(p => p.id === player.id ? { ...p, connected: true } : p)
+                : [...prev, player]);
+        });
+
+        return () => {
+            if (timerRef.current) clearInterval(timerRef.current);
+            socket.disconnect();
+        };
+    }, [applyResults, createGame, showQuestion, teamMode, watchGame]);
+
+    // Countdown display only; the server decides when the question closes
+    useEffect(() => {
+        if (gameState === 'QUESTION' && deadline > 0) {
+            timerRef.current = setInterval(() => {
+                setTimeLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+            }, 250);
+        }
+        return () => {
+            if (timerRef.current) clearInterval(timerRef.current);
+        };
+    }, [gameState, deadline]);
+
+    const openLobby = () => {
+        const settings = { ...teams, names: teams.names.map(name => name.trim()) };
+        teamsRef.current = settings;
+        setTeams(settings);
+        if (socketRef.current?.connected) createGame(socketRef.current);
+    };
+
+    const setTeamName = (index: number, name: string) => {
+        setTeams(prev => ({ ...prev, names: prev.names.map((n, i) => i === index ? name : n) }));
+    };
+
+    const teamNamesValid = teams.names.every(name => name.trim())
+        && new Set(teams.names.map(name => name.trim())).size === teams.names.length;
+
+    // A ban also keeps the player's device from joining this game again
+    const kickPlayer = (player: Player, ban: boolean) => {
+        const question = ban ? `Ban ${player.nickname} from this game?` : `Remove ${player.nickname} from the game?`;
+        if (!socketRef.current || !confirm(question)) return;
+        socketRef.current.emit('kick_player', { joinCode, hostToken, playerId: player.id, ban }, (res) => {
+            if (!res.success) alert('Could not remove player: ' + res.error);
+        });
+    };
+
+    const playerCard = (p: Player) => (
+        <div key={p.id} className={`${styles.playerCard} ${p.connected === false ? styles.playerOffline : ''}`}>
+            {p.nickname}
+            {!display && (
+                <span className={styles.playerActions}>
+                    <button className={styles.kickBtn} onClick={() => kickPlayer(p, false)} title={`Remove ${p.nickname}`}>✕</button>
+                    <button className={styles.kickBtn} onClick={() => kickPlayer(p, true)} title={`Ban ${p.nickname}`}>🚫</button>
+                </span>
+            )}
+        </div>
+    );
+
+    const startGame = () => {
+        if (socketRef.current && joinCode) {
+            socketRef.current.emit('start_game', { joinCode, hostToken }, (res) => {
+                if (res.success) {
+                    nextQuestion();
+                }
+            });
+        }
+    };
+
+    return (
+        <div className={styles.container}>
+            {/* SETUP STATE (team games) */}
+            {gameState === 'SETUP' && (
+                <div className={styles.teamSetup}>
+                    <h2 className={styles.leaderboardTitle}>Team Game</h2>
+                    {teams.names.map((name, index) => (
+                        <div key={index} className={styles.teamNameRow}>
+                            <span className={styles.teamSwatch} style={{ backgroundColor: TEAM_COLORS[index] }} />
+                            <input
+                                className={styles.teamNameInput}
+                                value={name}
+                                onChange={e => setTeamName(index, e.target.value)}
+                                maxLength={TEAM_LIMITS.nameLength}
+                                aria-label={`Team ${index + 1} name`}
+                            />
+                            {teams.names.length > TEAM_LIMITS.minTeams && (
+                                <button
+                                    className={styles.removeTeamBtn}
+                                    onClick={() => setTeams(prev => ({ ...prev, names: prev.names.filter((_, i) => i !== index) }))}
+                                    title="Remove team"
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {teams.names.length < TEAM_LIMITS.maxTeams && (
+                        <button
+                            className={styles.addTeamBtn}
+                            onClick={() => setTeams(prev => ({ ...prev, names: [...prev.names, `Team ${prev.names.length + 1}`] }))}
+                        >
+                            + Add team
+                        </button>
+                    )}
+                    <label className={styles.teamOption}>
+                        Team score
+                        <select
+                            value={teams.scoring}
+                            onChange={e => setTeams(prev => ({ ...prev, scoring: e.target.value as TeamSettings['scoring'] }))}
+                        >
+                            {TEAM_SCORING.map(scoring => (
+                                <option key={scoring} value={scoring}>{TEAM_SCORING_LABELS[scoring]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className={styles.teamOption}>
+                        <input
+                            type="checkbox"
+                            checked={teams.choice}
+                            onChange={e => setTeams(prev => ({ ...prev, choice: e.target.checked }))}
+                        />
+                        Let players pick their team
+                    </label>
+                    <button className={styles.nextBtn} onClick={openLobby} disabled={!teamNamesValid}>
+                        Open Lobby
+                    </button>
+                </div>
+            )}
+
+            {/* LOBBY STATE */}
+            {gameState === 'LOBBY' && (
+                <div className={styles.lobby}>
+                    <header className={styles.lobbyHeader}>
+                        <div className={styles.joinInfo}>
+                            <span className={styles.joinLabel}>JOIN AT VIBEHOOT.COM WITH CODE</span>
+                            <span className={styles.joinCode}>{joinCode || '...'}</span>
+                        </div>
+                        {!display && joinCode && (
+                            <nav className={styles.screenLinks}>
+                                <a href={`/host/display/${joinCode}`} target="_blank" rel="noopener noreferrer">Open projector display</a>
+                                <a href={`/host/control/${joinCode}`} target="_blank" rel="noopener noreferrer">Open phone controller</a>
+                            </nav>
+                        )}
+                    </header>
+
+                    {teamGame ? (
+                        <div className={styles.teamColumns}>
+                            {teams.names.map((name, index) => (
+                                <div key={index} className={styles.teamColumn} style={{ borderColor: TEAM_COLORS[index] }}>
+                                    <h3 className={styles.teamHeading} style={{ backgroundColor: TEAM_COLORS[index] }}>{name}</h3>
+                                    {players.filter(p => p.team === index).map(playerCard)}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className={styles.playersGrid}>
+                            {players.map(playerCard)}
+                        </div>
+                    )}
+
+                    <div className={styles.footer}>
+                        <div className={styles.playerCount}>
+                            {players.length} Players
+                        </div>
+                        {!display && (
+                            <button className={styles.startBtn} onClick={startGame} disabled={players.length === 0}>
+                                Start Game
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* QUESTION STATE */}
+            {gameState === 'QUESTION' && currentQuestion && (
+                <div className={styles.questionView}>
+                    <div className={styles.questionHeader}>
+                        <span className={styles.questionNumber}>Question {questionIndex + 1} of {totalQuestions}</span>
+                        <div className={styles.timer}>{timeLeft}</div>
+                        <span className={styles.answerCounter}>{answerCount} / {players.length} answered</span>
+                    </div>
+
+                    <div className={styles.questionContent}>
+                        <h1 className={styles.questionText}>{currentQuestion.text}</h1>
+                        {currentQuestion.imageId && (
+                            <Image
+                                src={uploadUrl(currentQuestion.imageId)}
+                                alt=""
+                                width={800}
+                                height={450}
+                                className={styles.questionImage}
+                                unoptimized
+                            />
+                        )}
+                        {currentQuestion.pointsMode === 'DOUBLE' && (
+                            <p className={styles.pointsBadge}>Double points!</p>
+                        )}
+                        {currentQuestion.type === 'MULTI_SELECT' && (
+                            <p className={styles.questionHint}>Select all that apply</p>
+                        )}
+                        {currentQuestion.type === 'TYPE_IN' && (
+                            <p className={styles.questionHint}>Type your answer on your device</p>
+                        )}
+                        {currentQuestion.type === 'ORDERING' && (
+                            <p className={styles.questionHint}>Put the items in the right order</p>
+                        )}
+                        {currentQuestion.slider && (
+                            <p className={styles.questionHint}>
+                                Pick a number from {currentQuestion.slider.min} to {currentQuestion.slider.max} {currentQuestion.slider.unit}
+                            </p>
+                        )}
+                    </div>
+
+                    {currentQuestion.type === 'WORD_CLOUD' ? (
+                        <WordCloud words={typedAnswers} />
+                    ) : (
+                        <div className={styles.optionsDisplay}>
+                            {currentQuestion.options.map((option, index) => (
+                                <div
+                                    key={index}
+                                    className={styles.optionCard}
+                                    style={{ backgroundColor: optionColor(currentQuestion, index) }}
+                                >
+                                    {currentQuestion.optionImageIds[index] && (
+                                        <Image
+                                            src={uploadUrl(currentQuestion.optionImageIds[index])}
+                                            alt=""
+                                            width={160}
+                                            height={90}
+                                            className={styles.optionImage}
+                                            unoptimized
+                                        />
+                                    )}
+                                    <span className={styles.optionText}>{option}</span>
+                                    {currentQuestion.type === 'POLL' && (
+                                        <span className={styles.liveCount}>{answerDistribution[index] ?? 0}</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {!display && (
+                        <button className={styles.skipBtn} onClick={showResults}>
+                            Skip Timer
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* RESULTS STATE */}
+            {gameState === 'RESULTS' && currentQuestion && (
+                <div className={styles.resultsView}>
+                    <h2 className={styles.resultsTitle}>Results</h2>
+                    <p className={styles.questionRecap}>{currentQuestion.text}</p>
+
+                    {ordering ? (
+                        <div className={styles.typedResults}>
+                            <p className={styles.acceptedList}>
+                                {correctCount} of {players.length} got the exact order
+                            </p>
+                            {ordering.correctOrder.map((index, position) => (
+                                <div key={position} className={styles.typedAnswerRow}>
+                                    <span className={styles.orderPosition}>{position + 1}</span>
+                                    <span className={styles.typedAnswerText}>{currentQuestion.options[index]}</span>
+                                    <div className={styles.typedAnswerBar}>
+                                        <div
+                                            className={`${styles.typedAnswerFill} ${styles.positionErrorFill}`}
+                                            style={{ width: `${players.length > 0 ? (ordering.positionErrors[position] / players.length) * 100 : 0}%` }}
+                                        />
+                                    </div>
+                                    <span className={styles.positionErrors}>{ordering.positionErrors[position]} wrong</span>
+                                </div>
+                            ))}
+                        </div>
+                    ) : histogram ? (
+                        <div className={styles.histogram}>
+                            <p className={styles.acceptedList}>Correct: {histogram.correctValue} {histogram.unit}</p>
+                            <div className={styles.histogramBars}>
+                                {histogram.buckets.map(bucket => {
+                                    const holdsAnswer = bucket.from <= histogram.correctValue && histogram.correctValue <= bucket.to;
+                                    return (
+                                        <div key={bucket.from} className={styles.histogramColumn}>
+                                            <span className={styles.histogramCount}>{bucket.count}</span>
+                                            <div
+                                                className={`${styles.histogramBar} ${holdsAnswer ? styles.histogramCorrect : ''}`}
+                                                style={{ height: `${players.length > 0 ? (bucket.count / players.length) * 100 : 0}%` }}
+                                            />
+                                            <span className={styles.histogramLabel}>
+                                                {bucket.from === bucket.to ? bucket.from : `${bucket.from}–${bucket.to}`}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ) : currentQuestion.type === 'WORD_CLOUD' ? (
+                        <WordCloud words={typedAnswers} />
+                    ) : currentQuestion.type === 'TYPE_IN' ? (
+                        // Free text has no options to chart, so list what players actually typed
+                        <div className={styles.typedResults}>
+                            <p className={styles.acceptedList}>Accepted: {acceptedAnswers.join(', ')}</p>
+                            {typedAnswers.length === 0 && <p className={styles.acceptedList}>No answers</p>}
+                            {typedAnswers.map(group => (
+                                <div
+                                    key={group.text}
+                                    className={`${styles.typedAnswerRow} ${group.correct ? styles.correctAnswer : ''}`}
+                                >
+                                    <span className={styles.typedAnswerText}>{group.text}</span>
+                                    <div className={styles.typedAnswerBar}>
+                                        <div
+                                            className={styles.typedAnswerFill}
+                                            style={{ width: `${players.length > 0 ? (group.count / players.length) * 100 : 0}%` }}
+                                        />
+                                    </div>
+                                    <span className={styles.resultCount}>{group.count}</span>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className={styles.resultsGrid} style={{ gridTemplateColumns: `repeat(${currentQuestion.options.length}, 1fr)` }}>
+                            {currentQuestion.options.map((option, index) => (
+                                <div
+                                    key={index}
+                                    className={`${styles.resultCard} ${correctOptionIndexes.includes(index) ? styles.correctAnswer : ''}`}
+                                    style={{ backgroundColor: optionColor(currentQuestion, index) }}
+                                >
+                                    <div className={styles.resultBar}>
+                                        <div
+                                            className={styles.resultFill}
+                                            style={{
+                                                height: `${players.length > 0 ? (answerDistribution[index] / players.length) * 100 : 0}%`
+                                            }}
+                                        />
+                                    </div>
+                                    <span className={styles.resultCount}>{answerDistribution[index]}</span>
+                                    <span className={styles.resultOption}>{option}</span>
+                                    {correctOptionIndexes.includes(index) && <span className={styles.checkmark}>✓</span>}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {!display && (
+                        <button className={styles.nextBtn} onClick={showLeaderboard}>
+                            Show Leaderboard
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* LEADERBOARD STATE */}
+            {gameState === 'LEADERBOARD' && (
+                <div className={styles.leaderboardView}>
+                    <h2 className={styles.leaderboardTitle}>Leaderboard</h2>
+
+                    {teamLeaderboard && (
+                        <div className={styles.teamStandings}>
+                            {teamLeaderboard.map((entry, index) => (
+                                <div
+                                    key={entry.team}
+                                    className={styles.teamStanding}
+                                    style={{ backgroundColor: TEAM_COLORS[entry.team] }}
+                                >
+                                    <span className={styles.rank}>#{index + 1}</span>
+                                    <span className={styles.playerName}>{entry.name}</span>
+                                    <span className={styles.playerScore}>{entry.score}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className={styles.leaderboardList}>
+                        {leaderboard.map((player, index) => (
+                            <div key={player.id} className={styles.leaderboardRow}>
+                                <span className={styles.rank}>#{index + 1}</span>
+                                <span className={styles.playerName}>{player.nickname}</span>
+                                {player.team !== null && teams.names[player.team] && (
+                                    <span className={styles.teamTag} style={{ backgroundColor: TEAM_COLORS[player.team] }}>
+                                        {teams.names[player.team]}
+                                    </span>
+                                )}
+                                {player.streak > 1 && <span className={styles.streakBadge}>🔥 {player.streak}</span>}
+                                {(player.speedBonus > 0 || player.streakBonus > 0) && (
+                                    <span className={styles.bonusBreakdown}>
+                                        ⚡ +{player.speedBonus} speed · 🔥 +{player.streakBonus} streak
+                                    </span>
+                                )}
+                                <span className={styles.playerScore}>{player.score}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {!display && (
+                        <button className={styles.nextBtn} onClick={nextQuestion}>
+                            Next Question
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Players can be removed at any point while the game runs */}
+            {!display && (gameState === 'QUESTION' || gameState === 'RESULTS' || gameState === 'LEADERBOARD') && (
+                <details className={styles.playersPanel}>
+                    <summary>Players ({players.length})</summary>
+                    <div className={styles.playersPanelList}>
+                        {players.map(playerCard)}
+                    </div>
+                </details>
+            )}
+
+            {/* ENDED STATE */}
+            {gameState === 'ENDED' && (
+                <div className={styles.endedView}>
+                    <h1 className={styles.endedTitle}>Game Over!</h1>
+
+                    {teamLeaderboard && (
+                        <>
+                            <div className={styles.podium}>
+                                {teamLeaderboard.slice(0, 3).map((entry, index) => (
+                                    <div
+                                        key={entry.team}
+                                        className={`${styles.podiumPlace} ${styles[`place${index + 1}`]}`}
+                                    >
+                                        <span className={styles.podiumRank}>{index === 0 ? '🥇' : index === 1 ? '🥈' : '🥉'}</span>
+                                        <span className={styles.podiumName}>{entry.name}</span>
+                                        <span className={styles.podiumScore}>{entry.score} pts</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className={styles.fullLeaderboard}>
+                                {teamLeaderboard.slice(3).map((entry, index) => (
+                                    <div key={entry.team} className={styles.leaderboardRow}>
+                                        <span className={styles.rank}>#{index + 4}</span>
+                                        <span className={styles.playerName}>{entry.name}</span>
+                                        <span className={styles.playerScore}>{entry.score}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <h2 className={styles.teamPlayersTitle}>Top Players</h2>
+                        </>
+                    )}
+
+                    <div className={styles.podium}>
+                        {leaderboard.slice(0, 3).map((player, index) => (
+                            <div key={player.id} className={`${styles.podiumPlace} ${styles[`place${index + 1}`]}`}>
+                                <span className={styles.podiumRank}>{index === 0 ? '🥇' : index === 1 ? '🥈' : '🥉'}</span>
+                                <span className={styles.podiumName}>{player.nickname}</span>
+                                <span className={styles.podiumScore}>{player.score} pts</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className={styles.fullLeaderboard}>
+                        {leaderboard.slice(3).map((player, index) => (
+                            <div key={player.id} className={styles.leaderboardRow}>
+                                <span className={styles.rank}>#{index + 4}</span>
+                                <span className={styles.playerName}>{player.nickname}</span>
+                                <span className={styles.playerScore}>{player.score}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {!display && sessionId && (
+                        <Link href={`/host/sessions/${sessionId}`} className={styles.nextBtn}>
+                            View Full Report
+                        </Link>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
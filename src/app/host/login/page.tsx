@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import styles from './page.module.css';
+
+export default function HostLogin() {
+    const router = useRouter();
+    const [mode, setMode] = useState<'LOGIN' | 'SIGNUP'>('LOGIN');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setLoading(true);
+        try {
+            const res = await fetch(mode === 'LOGIN' ? '/api/auth/login' : '/api/auth/signup', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ email, password })
+            });
+            if (res.ok) {
+                const next = new URLSearchParams(window.location.search).get('next');
+                router.push(next && next.startsWith('/host/') ? next : '/host/dashboard');
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Something went wrong');
+            }
+        } catch {
+            setError('Could not reach the server');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className={styles.container}>
+            <form className={styles.card} onSubmit={submit}>
+                <h1 className={styles.logo}>VIBEHOOT <span>HOST</span></h1>
+                <p className={styles.subtitle}>
+                    {mode === 'LOGIN' ? 'Log in to your quizzes' : 'Create a host account'}
+                </p>
+                <input
+                    className={styles.input}
+                    type="email"
+                    placeholder="Email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    autoComplete="email"
+                    required
+                />
+                <input
+                    className={styles.input}
+                    type="password"
+                    placeholder="Password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete={mode === 'LOGIN' ? 'current-password' : 'new-password'}
+                    required
+                />
+                {error && <p className={styles.errorText}>{error}</p>}
+                <button type="submit" className={styles.submitBtn} disabled={loading}>
+                    {loading ? 'Please wait...' : mode === 'LOGIN' ? 'Log In' : 'Sign Up'}
+                </button>
+                <button
+                    type="button"
+                    className={styles.switchMode}
+                    onClick={() => {
+                        setMode(mode === 'LOGIN' ? 'SIGNUP' : 'LOGIN');
+                        setError('');
+                    }}
+                >
+                    {mode === 'LOGIN' ? 'No account yet? Sign up' : 'Already have an account? Log in'}
+                </button>
+            </form>
+        </div>
+    );
+}
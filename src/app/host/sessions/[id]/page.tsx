@@ -0,0 +1,201 @@
+"use client";
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import styles from './page.module.css';
+
+interface ReportAnswer {
+    optionText: string;
+    correct: boolean;
+    points: number;
+}
+
+interface SessionReport {
+    session: {
+        id: string;
+        joinCode: string;
+        quizTitle: string;
+        revisionNumber: number | null;
+        status: string;
+        mode: string;
+        closesAt: string | null;
+        startedAt: string | null;
+        endedAt: string | null;
+    };
+    questions: {
+        index: number;
+        text: string;
+        answerCount: number;
+        correctCount: number;
+        scored: boolean;
+        correctRate: number | null;
+    }[];
+    players: {
+        id: string;
+        nickname: string;
+        rank: number | null;
+        score: number;
+        correctCount: number;
+        accuracy: number;
+        answers: (ReportAnswer | null)[];
+    }[];
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function SessionReportPage() {
+    const router = useRouter();
+    const params = useParams();
+    const sessionId = params.id as string;
+    const [report, setReport] = useState<SessionReport | null>(null);
+
+    useEffect(() => {
+        fetch(`/api/sessions/${sessionId}`)
+            .then(res => {
+                if (res.status === 401) {
+                    router.push('/host/login');
+                    return null;
+                }
+                if (!res.ok) {
+                    alert('Report not found');
+                    router.push('/host/dashboard');
+                    return null;
+                }
+                return res.json();
+            })
+            .then(data => data && setReport(data));
+    }, [sessionId, router]);
+
+    if (!report) {
+        return (
+            <div className={styles.container}>
+                <div className={styles.loadingState}>Loading report...</div>
+            </div>
+        );
+    }
+
+    const averageAccuracy = report.players.length > 0
+        ? report.players.reduce((sum, p) => sum + p.accuracy, 0) / report.players.length
+        : 0;
+    const playedAt = report.session.startedAt ? new Date(report.session.startedAt).toLocaleString() : 'Not started';
+    // Assignment results keep coming in until it closes
+    const closing = report.session.mode === 'ASSIGNMENT' && report.session.closesAt
+        ? ` · ${report.session.status === 'ENDED' ? 'Closed' : 'Open until'} ${new Date(report.session.closesAt).toLocaleString()}`
+        : '';
+    const revision = report.session.revisionNumber !== null ? ` · Version ${report.session.revisionNumber}` : '';
+
+    return (
+        <div className={styles.container}>
+            <header className={styles.header}>
+                <div className={styles.title}>
+                    <h1>{report.session.quizTitle}</h1>
+                    <p>
+                        {report.session.mode === 'ASSIGNMENT' ? 'Assignment' : 'Game'} {report.session.joinCode} · {playedAt}{closing}{revision}
+                    </p>
+                </div>
+                <div className={styles.headerActions}>
+                    <Link href="/host/dashboard" className={styles.backBtn}>
+                        Dashboard
+                    </Link>
+                    <a href={`/api/sessions/${sessionId}/export?format=csv`} className={styles.exportBtn}>
+                        Download CSV
+                    </a>
+                    <a href={`/api/sessions/${sessionId}/export?format=xlsx`} className={styles.exportBtn}>
+                        Download XLSX
+                    </a>
+                </div>
+            </header>
+
+            <main className={styles.main}>
+                <div className={styles.summary}>
+                    <div className={styles.stat}>
+                        <span className={styles.statValue}>{report.players.length}</span>
+                        <span className={styles.statLabel}>Players</span>
+                    </div>
+                    <div className={styles.stat}>
+                        <span className={styles.statValue}>{report.questions.length}</span>
+                        <span className={styles.statLabel}>Questions</span>
+                    </div>
+                    <div className={styles.stat}>
+                        <span className={styles.statValue}>{percent(averageAccuracy)}</span>
+                        <span className={styles.statLabel}>Average accuracy</span>
+                    </div>
+                </div>
+
+                <section className={styles.section}>
+                    <h2>Players</h2>
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>#</th>
+                                    <th>Nickname</th>
+                                    <th>Score</th>
+                                    <th>Accuracy</th>
+                                    {report.questions.map(q => (
+                                        <th key={q.index} title={q.text}>Q{q.index + 1}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.players.map(player => (
+                                    <tr key={player.id}>
+                                        <td>{player.rank ?? '-'}</td>
+                                        <td>{player.nickname}</td>
+                                        <td>{player.score}</td>
+                                        <td>{percent(player.accuracy)}</td>
+                                        {player.answers.map((answer, index) => (
+                                            <td
+                                                key={index}
+                                                title={answer ? `${answer.optionText} (${answer.points} pts)` : 'No answer'}
+                                                className={answer ? (answer.correct ? styles.correctCell : styles.wrongCell) : styles.emptyCell}
+                                            >
+                                                {answer ? (answer.correct ? '✓' : '✗') : '–'}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+
+                <section className={styles.section}>
+                    <h2>Questions</h2>
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>#</th>
+                                    <th>Question</th>
+                                    <th>Answered</th>
+                                    <th>Correct</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.questions.map(q => (
+                                    <tr key={q.index}>
+                                        <td>{q.index + 1}</td>
+                                        <td className={styles.questionText}>{q.text}</td>
+                                        <td>{q.answerCount} / {report.players.length}</td>
+                                        {q.correctRate === null ? (
+                                            <td>No correct answer</td>
+                                        ) : (
+                                            <td>
+                                                <span className={styles.rateBar}>
+                                                    <span className={styles.rateFill} style={{ width: percent(q.correctRate), display: 'block' }} />
+                                                </span>
+                                                {percent(q.correctRate)}
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+            </main>
+        </div>
+    );
+}
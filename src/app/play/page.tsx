@@ -1,54 +1,242 @@
 "use client";
 
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
+import Image from 'next/image';
 import { io, Socket } from 'socket.io-client';
+import type { AssignmentStatus, PlayerQuestion, PlayerSnapshot, QuestionImages } from '@/lib/game-engine';
+import type { AnswerResponse } from '@/lib/grading';
+import { toAnswerResult } from '@/lib/socket-protocol';
+import type { AnswerResult, ClientToServerEvents, ServerToClientEvents, Standings } from '@/lib/socket-protocol';
+import { QUIZ_LIMITS, roundSliderValue, uploadUrl } from '@/lib/quiz-schema';
+import type { QuestionType, SliderRange } from '@/lib/quiz-schema';
 import styles from './page.module.css';
 
 const OPTION_COLORS = ['#E21B3C', '#1368CE', '#D89E00', '#26890C'];
+const TRUE_FALSE_COLORS = ['#1368CE', '#E21B3C'];
 
-interface Question {
+interface Question extends QuestionImages {
+    type: QuestionType;
     text: string;
     options: string[];
+    slider?: SliderRange;
     timeLimit: number;
 }
 
-interface Player {
-    id: string;
-    nickname: string;
-    score: number;
+// What the device keeps to resume its player after a reload or dropped connection
+interface StoredPlayer {
+    joinCode: string;
+    playerId: string;
+    playerToken: string;
+}
+
+const STORAGE_KEY = 'vibehoot_player';
+const DEVICE_KEY = 'vibehoot_device';
+
+// Stays with the browser across games, so a host's ban outlasts the player's nickname.
+// getRandomValues, since randomUUID is missing on plain-http LAN addresses.
+function deviceId(): string {
+    let id = localStorage.getItem(DEVICE_KEY);
+    if (!id) {
+        id = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+        localStorage.setItem(DEVICE_KEY, id);
+    }
+    return id;
+}
+
+// Slider answers count as a hit when they score at all; unscored answers are neither right nor wrong
+function resultTone(result: AnswerResult | null): 'correct' | 'wrong' | 'neutral' {
+    if (!result) return 'wrong';
+    if ('scored' in result) return 'neutral';
+    return ('distance' in result ? result.score > 0 : result.correct) ? 'correct' : 'wrong';
+}
+
+const TONE_ICONS = { correct: '✓', wrong: '✗', neutral: '✓' };
+
+// Multi-select answers with partial credit can score without being fully correct
+function resultLabel(result: AnswerResult | null, unit = ''): string {
+    if (result && 'scored' in result) return 'Thanks for answering!';
+    if (result && 'distance' in result) {
+        return result.distance === 0 ? 'Spot on!' : `Off by ${result.distance}${unit ? ` ${unit}` : ''}`;
+    }
+    if (result?.correct) return 'Correct!';
+    return result && result.score > 0 ? 'Partly correct' : 'Wrong!';
+}
+
+// Lists the bonuses on top of the answer's own points, e.g. "+250 speed · +200 streak"
+function bonusSummary(result: AnswerResult): string {
+    if ('scored' in result) return '';
+    const { speedBonus, streakBonus } = result.breakdown;
+    return [speedBonus > 0 && `+${speedBonus} speed`, streakBonus > 0 && `+${streakBonus} streak`]
+        .filter(Boolean)
+        .join(' · ');
+}
+
+// The slider starts on the step nearest the middle of its range
+function sliderStart(range: SliderRange): number {
+    return roundSliderValue(range.min + Math.round((range.max - range.min) / 2 / range.step) * range.step);
 }
 
 export default function PlayerApp() {
     const [joinCode, setJoinCode] = useState('');
     const [nickname, setNickname] = useState('');
-    const [status, setStatus] = useState<'JOIN' | 'WAITING' | 'QUESTION' | 'ANSWERED' | 'RESULT' | 'LEADERBOARD' | 'ENDED'>('JOIN');
-    const [playerId, setPlayerId] = useState('');
+    const [status, setStatus] = useState<
+        'JOIN' | 'WAITING' | 'QUESTION' | 'ANSWERED' | 'RESULT' | 'LEADERBOARD' | 'FINISHED' | 'ENDED' | 'REMOVED'
+    >('JOIN');
+    const [banned, setBanned] = useState(false);
+    const [connected, setConnected] = useState(true);
     const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
     const [questionIndex, setQuestionIndex] = useState(0);
     const [totalQuestions, setTotalQuestions] = useState(0);
-    const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-    const [lastResult, setLastResult] = useState<{ correct: boolean; score: number } | null>(null);
+    const [assignment, setAssignment] = useState<AssignmentStatus | null>(null); // self-paced games only
+    const [deadline, setDeadline] = useState(0); // in local clock time
+    const [timeLeft, setTimeLeft] = useState(0);
+    const [selectedAnswer, setSelectedAnswer] = useState<AnswerResponse | null>(null);
+    const [picks, setPicks] = useState<number[]>([]); // multi-select choices not yet submitted
+    const [typedAnswer, setTypedAnswer] = useState('');
+    const [sliderValue, setSliderValue] = useState(0);
+    const [itemOrder, setItemOrder] = useState<number[]>([]); // ordering questions: option indexes as arranged
+    const [draggedPosition, setDraggedPosition] = useState<number | null>(null);
+    const [lastResult, setLastResult] = useState<AnswerResult | null>(null);
     const [totalScore, setTotalScore] = useState(0);
-    const [leaderboard, setLeaderboard] = useState<Player[]>([]);
     const [myRank, setMyRank] = useState(0);
-    const socketRef = useRef<Socket | null>(null);
+    const [myStreak, setMyStreak] = useState(0);
+    const [team, setTeam] = useState<number | null>(null);
+    const [teams, setTeams] = useState<PlayerSnapshot['teams']>(null);
+    const [teamRank, setTeamRank] = useState(0);
+    const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
+    const credentialsRef = useRef<StoredPlayer | null>(null);
+    const teamRef = useRef<number | null>(null); // for socket handlers, which would see a stale team
 
-    const joinGame = () => {
-        if (!joinCode || !nickname) return;
+    // Our own rank and, in team games, our team's
+    const applyStandings = useCallback(({ leaderboard, teamLeaderboard }: Standings) => {
+        const rank = leaderboard.findIndex(p => p.id === credentialsRef.current?.playerId) + 1;
+        setMyRank(rank);
+        setMyStreak(rank > 0 ? leaderboard[rank - 1].streak : 0);
+        setTeamRank((teamLeaderboard ?? []).findIndex(t => t.team === teamRef.current) + 1);
+    }, []);
+
+    const showFinalResults = useCallback((standings: Standings) => {
+        applyStandings(standings);
+        setStatus('ENDED');
+        // The game is over, so there is nothing left to resume
+        localStorage.removeItem(STORAGE_KEY);
+    }, [applyStandings]);
+
+    const showQuestion = useCallback((question: PlayerQuestion) => {
+        setCurrentQuestion({
+            type: question.type,
+            text: question.text,
+            options: question.options,
+            slider: question.slider,
+            imageId: question.imageId,
+            optionImageIds: question.optionImageIds,
+            timeLimit: question.timeLimit
+        });
+        setQuestionIndex(question.questionIndex);
+        setTotalQuestions(question.totalQuestions);
+        if (question.slider) setSliderValue(sliderStart(question.slider));
+        setItemOrder(question.options.map((_, index) => index));
+        // Translate the server deadline into local time to cancel out clock skew
+        setDeadline(question.deadline - question.serverTime + Date.now());
+    }, []);
+
+    // A new question, with nothing picked or typed yet
+    const startQuestion = useCallback((question: PlayerQuestion) => {
+        showQuestion(question);
+        setSelectedAnswer(null);
+        setPicks([]);
+        setTypedAnswer('');
+        setLastResult(null);
+        setStatus('QUESTION');
+    }, [showQuestion]);
+
+    const applySnapshot = useCallback((snapshot: PlayerSnapshot) => {
+        setNickname(snapshot.nickname);
+        setTotalScore(snapshot.score);
+        setTeam(snapshot.team);
+        teamRef.current = snapshot.team;
+        setTeams(snapshot.teams);
+        setAssignment(snapshot.assignment);
+
+        if (snapshot.question) showQuestion(snapshot.question);
+        setSelectedAnswer(snapshot.answer
+            ? {
+                optionIndex: snapshot.answer.optionIndex,
+                optionIndexes: snapshot.answer.optionIndexes,
+                text: snapshot.answer.text,
+                value: snapshot.answer.value,
+                order: snapshot.answer.order
+            }
+            : null);
+        setPicks([]);
+        setLastResult(snapshot.answer ? toAnswerResult(snapshot.answer) : null);
+
+        // Assignment players are each on their own question, or haven't started yet
+        if (snapshot.assignment && snapshot.status === 'ACTIVE') {
+            if (snapshot.assignment.finished) {
+                setStatus('FINISHED');
+            } else if (!snapshot.question) {
+                setStatus('WAITING');
+            } else if (snapshot.answer || snapshot.question.deadline <= snapshot.question.serverTime) {
+                setStatus(snapshot.answer ? 'ANSWERED' : 'RESULT');
+            } else {
+                setStatus('QUESTION');
+            }
+            return;
+        }
+
+        switch (snapshot.status) {
+            case 'SHOWING_QUESTION':
+                setStatus(snapshot.answer ? 'ANSWERED' : 'QUESTION');
+                break;
+            case 'SHOWING_RESULTS':
+                setStatus('RESULT');
+                break;
+            case 'ENDED':
+                showFinalResults({ leaderboard: snapshot.leaderboard || [], teamLeaderboard: snapshot.teamLeaderboard });
+                break;
+            default:
+                setStatus('WAITING');
+        }
+    }, [showFinalResults, showQuestion]);
 
-        const socket = io();
+    // Opens the socket; on every (re)connect the stored credentials resume the player,
+    // otherwise the given nickname joins as a new player
+    const connect = useCallback((join: { joinCode: string; nickname: string } | null) => {
+        socketRef.current?.disconnect();
+        const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io();
         socketRef.current = socket;
-        const pid = Math.random().toString(36).substring(7);
-        setPlayerId(pid);
 
         socket.on('connect', () => {
-            socket.emit('join_game', { joinCode, nickname, playerId: pid }, (res: any) => {
-                if (res.success) {
-                    setStatus('WAITING');
-                } else {
-                    alert('Failed to join: ' + res.error);
-                }
-            });
+            setConnected(true);
+            const credentials = credentialsRef.current;
+
+            if (credentials) {
+                socket.emit('rejoin_game', credentials, (res) => {
+                    if (res.success) {
+                        setJoinCode(credentials.joinCode);
+                        applySnapshot(res.snapshot);
+                    } else {
+                        // The game is gone or no longer knows us; start over
+                        credentialsRef.current = null;
+                        localStorage.removeItem(STORAGE_KEY);
+                        socket.disconnect();
+                        setStatus('JOIN');
+                    }
+                });
+            } else if (join) {
+                socket.emit('join_game', { ...join, deviceId: deviceId() }, (res) => {
+                    if (res.success) {
+                        const stored: StoredPlayer = { joinCode: join.joinCode, playerId: res.playerId, playerToken: res.playerToken };
+                        credentialsRef.current = stored;
+                        localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+                        applySnapshot(res.snapshot);
+                    } else {
+                        socket.disconnect();
+                        alert('Failed to join: ' + res.error);
+                    }
+                });
+            }
         });
 
         socket.on('game_started', () => {
@@ -56,68 +244,139 @@ export default function PlayerApp() {
         });
 
         socket.on('question_start', (data) => {
-            setCurrentQuestion({
-                text: data.text,
-                options: data.options,
-                timeLimit: data.timeLimit
-            });
-            setQuestionIndex(data.questionIndex);
-            setTotalQuestions(data.totalQuestions);
-            setSelectedAnswer(null);
-            setLastResult(null);
-            setStatus('QUESTION');
+            startQuestion(data);
         });
 
-        socket.on('question_results', (data) => {
-            // Show if our answer was correct
-            if (selectedAnswer !== null) {
-                const wasCorrect = selectedAnswer === data.correctOptionIndex;
-                setLastResult({
-                    correct: wasCorrect,
-                    score: lastResult?.score || 0
-                });
-            }
+        socket.on('question_results', () => {
+            // Our own result already arrived with the answer acknowledgement
             setStatus('RESULT');
         });
 
+        socket.on('team_changed', (data) => {
+            if (data.playerId !== credentialsRef.current?.playerId) return;
+            setTeam(data.team);
+            teamRef.current = data.team;
+        });
+
         socket.on('leaderboard_update', (data) => {
-            setLeaderboard(data.leaderboard);
-            const rank = data.leaderboard.findIndex((p: Player) => p.id === pid) + 1;
-            setMyRank(rank);
+            applyStandings(data);
             setStatus('LEADERBOARD');
         });
 
         socket.on('game_ended', (data) => {
-            setLeaderboard(data.leaderboard);
-            const rank = data.leaderboard.findIndex((p: Player) => p.id === pid) + 1;
-            setMyRank(rank);
-            setStatus('ENDED');
+            showFinalResults(data);
+        });
+
+        // The host took us out of the game; the server disconnects us right after
+        socket.on('kicked', (data) => {
+            credentialsRef.current = null;
+            localStorage.removeItem(STORAGE_KEY);
+            setBanned(data.banned);
+            setStatus('REMOVED');
         });
 
         socket.on('disconnect', () => {
-            // Could show reconnect UI
+            setConnected(false);
         });
+    }, [applySnapshot, applyStandings, showFinalResults, startQuestion]);
+
+    // Assignment questions have no host to close them, so the device counts down to the server deadline
+    useEffect(() => {
+        if (!assignment || status !== 'QUESTION' || deadline === 0) return;
+        const tick = () => {
+            const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+            setTimeLeft(left);
+            if (left === 0) setStatus('RESULT');
+        };
+        const timer = setInterval(tick, 250);
+        return () => clearInterval(timer);
+    }, [assignment, status, deadline]);
+
+    // Resume a game this device was already part of
+    useEffect(() => {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            credentialsRef.current = JSON.parse(stored);
+            connect(null);
+        }
+        return () => {
+            socketRef.current?.disconnect();
+        };
+    }, [connect]);
+
+    const joinGame = () => {
+        if (!joinCode || !nickname) return;
+        credentialsRef.current = null;
+        connect({ joinCode, nickname });
     };
 
-    const submitAnswer = (optionIndex: number) => {
+    const submitAnswer = (response: AnswerResponse) => {
         if (socketRef.current && selectedAnswer === null) {
-            setSelectedAnswer(optionIndex);
+            setSelectedAnswer(response);
             socketRef.current.emit('submit_answer', {
                 joinCode,
-                playerId,
-                optionIndex
-            }, (res: any) => {
+                ...response
+            }, (res) => {
                 if (res.success) {
-                    setLastResult({ correct: res.correct, score: res.score });
+                    setLastResult(res);
                     setTotalScore(prev => prev + res.score);
                     setStatus('ANSWERED');
+                } else {
+                    // Not graded, so the player may try again, or sees time's up once the question closes
+                    setSelectedAnswer(null);
+                    alert('Your answer was not accepted: ' + res.error);
                 }
             });
         }
     };
 
+    // Assignment players move on whenever they are ready
+    const nextAssignmentQuestion = () => {
+        socketRef.current?.emit('next_assignment_question', { joinCode }, (res) => {
+            if (!res.success) {
+                alert('Could not load the next question: ' + res.error);
+            } else if (res.question) {
+                startQuestion(res.question);
+            } else {
+                setStatus('FINISHED');
+            }
+        });
+    };
+
+    const chooseTeam = (index: number) => {
+        socketRef.current?.emit('choose_team', { joinCode, team: index }, (res) => {
+            if (!res.success) alert('Could not switch team: ' + res.error);
+        });
+    };
+
+    const teamName = team !== null ? teams?.names[team] : undefined;
+
+    const moveItem = (from: number, to: number) => {
+        if (to < 0 || to >= itemOrder.length) return;
+        setItemOrder(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            return next;
+        });
+    };
+
+    const togglePick = (index: number) => {
+        setPicks(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+    };
+
+    const optionImage = (index: number) => {
+        const imageId = currentQuestion?.optionImageIds?.[index];
+        if (!imageId) return null;
+        return <Image src={uploadUrl(imageId)} alt="" width={160} height={90} className={styles.optionImage} unoptimized />;
+    };
+
     return (
         <div className={styles.container}>
+            {!connected && status !== 'JOIN' && status !== 'REMOVED' && (
+                <div className={styles.reconnecting}>Connection lost. Reconnecting...</div>
+            )}
+
             {/* JOIN SCREEN */}
             {status === 'JOIN' && (
                 <div className={styles.card}>
@@ -147,7 +406,32 @@ export default function PlayerApp() {
                 <div className={styles.center}>
                     <h2 className={styles.blink}>You're in!</h2>
                     <p className={styles.nickname}>{nickname}</p>
-                    <p className={styles.waitingText}>Waiting for host to start...</p>
+                    {teamName && <p className={styles.teamName}>Team {teamName}</p>}
+                    {assignment && (
+                        <>
+                            <p className={styles.waitingText}>
+                                Answer at your own pace until {new Date(assignment.closesAt).toLocaleString()}
+                            </p>
+                            <button className={styles.submitPicksBtn} onClick={nextAssignmentQuestion}>
+                                Start
+                            </button>
+                        </>
+                    )}
+                    {teams?.choice && (
+                        <div className={styles.teamChoice}>
+                            {teams.names.map((name, index) => (
+                                <button
+                                    key={index}
+                                    className={`${styles.teamBtn} ${team === index ? styles.picked : ''}`}
+                                    onClick={() => chooseTeam(index)}
+                                    disabled={team === index}
+                                >
+                                    {name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {!assignment && <p className={styles.waitingText}>Waiting for host to start...</p>}
                 </div>
             )}
 
@@ -156,31 +440,184 @@ export default function PlayerApp() {
                 <div className={styles.questionScreen}>
                     <div className={styles.questionInfo}>
                         <span>Question {questionIndex + 1} of {totalQuestions}</span>
+                        {assignment && <span className={styles.timeLeft}>{timeLeft}s</span>}
                     </div>
-                    <div className={styles.answersGrid}>
-                        {currentQuestion.options.map((_, index) => (
-                            <button
-                                key={index}
-                                className={styles.answerBtn}
-                                style={{ backgroundColor: OPTION_COLORS[index] }}
-                                onClick={() => submitAnswer(index)}
+                    {currentQuestion.imageId && (
+                        <Image
+                            src={uploadUrl(currentQuestion.imageId)}
+                            alt=""
+                            width={480}
+                            height={270}
+                            className={styles.questionImage}
+                            unoptimized
+                        />
+                    )}
+                    {currentQuestion.type === 'TRUE_FALSE' ? (
+                        // Only two choices, so they get labels and the whole screen
+                        <div className={`${styles.answersGrid} ${styles.trueFalseGrid}`}>
+                            {currentQuestion.options.map((option, index) => (
+                                <button
+                                    key={index}
+                                    className={styles.answerBtn}
+                                    style={{ backgroundColor: TRUE_FALSE_COLORS[index] }}
+                                    onClick={() => submitAnswer({ optionIndex: index })}
+                                >
+                                    {optionImage(index)}
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                    ) : currentQuestion.type === 'ORDERING' ? (
+                        // Drag to reorder, with buttons for screens that can't drag
+                        <div className={styles.orderingForm}>
+                            <p className={styles.selectHint}>Put these in the right order</p>
+                            <ol className={styles.orderingList}>
+                                {itemOrder.map((index, position) => (
+                                    <li
+                                        key={index}
+                                        className={`${styles.orderingItem} ${draggedPosition === position ? styles.dragging : ''}`}
+                                        draggable
+                                        onDragStart={() => setDraggedPosition(position)}
+                                        onDragOver={(e) => {
+                                            e.preventDefault();
+                                            if (draggedPosition === null || draggedPosition === position) return;
+                                            moveItem(draggedPosition, position);
+                                            setDraggedPosition(position);
+                                        }}
+                                        onDragEnd={() => setDraggedPosition(null)}
+                                    >
+                                        <span className={styles.orderingText}>{currentQuestion.options[index]}</span>
+                                        <button
+                                            className={styles.moveBtn}
+                                            onClick={() => moveItem(position, position - 1)}
+                                            disabled={position === 0}
+                                            aria-label="Move up"
+                                        >
+                                            ▲
+                                        </button>
+                                        <button
+                                            className={styles.moveBtn}
+                                            onClick={() => moveItem(position, position + 1)}
+                                            disabled={position === itemOrder.length - 1}
+                                            aria-label="Move down"
+                                        >
+                                            ▼
+                                        </button>
+                                    </li>
+                                ))}
+                            </ol>
+                            <button className={styles.submitPicksBtn} onClick={() => submitAnswer({ order: itemOrder })}>
+                                Submit
+                            </button>
+                        </div>
+                    ) : currentQuestion.slider ? (
+                        <div className={styles.sliderForm}>
+                            <div className={styles.sliderValue}>
+                                {sliderValue} {currentQuestion.slider.unit}
+                            </div>
+                            <input
+                                type="range"
+                                className={styles.slider}
+                                min={currentQuestion.slider.min}
+                                max={currentQuestion.slider.max}
+                                step={currentQuestion.slider.step}
+                                value={sliderValue}
+                                onChange={e => setSliderValue(Number(e.target.value))}
+                                aria-label="Your answer"
                             />
-                        ))}
-                    </div>
+                            <div className={styles.sliderBounds}>
+                                <span>{currentQuestion.slider.min}</span>
+                                <span>{currentQuestion.slider.max}</span>
+                            </div>
+                            <button className={styles.submitPicksBtn} onClick={() => submitAnswer({ value: sliderValue })}>
+                                Submit
+                            </button>
+                        </div>
+                    ) : currentQuestion.type === 'TYPE_IN' || currentQuestion.type === 'WORD_CLOUD' ? (
+                        <form
+                            className={styles.typeInForm}
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                if (typedAnswer.trim()) submitAnswer({ text: typedAnswer });
+                            }}
+                        >
+                            <input
+                                className={styles.input}
+                                placeholder="Type your answer"
+                                value={typedAnswer}
+                                onChange={e => setTypedAnswer(e.target.value)}
+                                maxLength={QUIZ_LIMITS.typedAnswerLength}
+                                autoFocus
+                            />
+                            <button type="submit" className={styles.submitPicksBtn} disabled={!typedAnswer.trim()}>
+                                Submit
+                            </button>
+                        </form>
+                    ) : currentQuestion.type === 'MULTI_SELECT' ? (
+                        // Picks toggle until the player sends them all at once
+                        <>
+                            <p className={styles.selectHint}>Select all that apply</p>
+                            <div className={styles.answersGrid}>
+                                {currentQuestion.options.map((_, index) => (
+                                    <button
+                                        key={index}
+                                        className={`${styles.answerBtn} ${picks.includes(index) ? styles.picked : ''}`}
+                                        style={{ backgroundColor: OPTION_COLORS[index] }}
+                                        onClick={() => togglePick(index)}
+                                        aria-pressed={picks.includes(index)}
+                                    >
+                                        {optionImage(index)}
+                                        {picks.includes(index) && '✓'}
+                                    </button>
+                                ))}
+                            </div>
+                            <button
+                                className={styles.submitPicksBtn}
+                                onClick={() => submitAnswer({ optionIndexes: picks })}
+                                disabled={picks.length === 0}
+                            >
+                                Submit
+                            </button>
+                        </>
+                    ) : (
+                        <div className={styles.answersGrid}>
+                            {currentQuestion.options.map((_, index) => (
+                                <button
+                                    key={index}
+                                    className={styles.answerBtn}
+                                    style={{ backgroundColor: OPTION_COLORS[index] }}
+                                    onClick={() => submitAnswer({ optionIndex: index })}
+                                >
+                                    {optionImage(index)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             )}
 
             {/* ANSWERED SCREEN */}
             {status === 'ANSWERED' && lastResult && (
                 <div className={styles.center}>
-                    <div className={`${styles.resultIcon} ${lastResult.correct ? styles.correct : styles.wrong}`}>
-                        {lastResult.correct ? '✓' : '✗'}
+                    <div className={`${styles.resultIcon} ${styles[resultTone(lastResult)]}`}>
+                        {TONE_ICONS[resultTone(lastResult)]}
                     </div>
-                    <h2>{lastResult.correct ? 'Correct!' : 'Wrong!'}</h2>
-                    {lastResult.correct && (
+                    <h2>{resultLabel(lastResult, currentQuestion?.slider?.unit)}</h2>
+                    {lastResult.score > 0 && (
                         <p className={styles.scoreGain}>+{lastResult.score} points</p>
                     )}
+                    {bonusSummary(lastResult) && (
+                        <p className={styles.bonusBreakdown}>{bonusSummary(lastResult)}</p>
+                    )}
+                    {'streak' in lastResult && lastResult.streak > 1 && (
+                        <p className={styles.streak}>🔥 {lastResult.streak} in a row</p>
+                    )}
                     <p className={styles.totalScore}>Total: {totalScore}</p>
+                    {assignment && (
+                        <button className={styles.submitPicksBtn} onClick={nextAssignmentQuestion}>
+                            Next
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -195,13 +632,30 @@ export default function PlayerApp() {
                         </>
                     ) : (
                         <>
-                            <div className={`${styles.resultIcon} ${lastResult?.correct ? styles.correct : styles.wrong}`}>
-                                {lastResult?.correct ? '✓' : '✗'}
+                            <div className={`${styles.resultIcon} ${styles[resultTone(lastResult)]}`}>
+                                {TONE_ICONS[resultTone(lastResult)]}
                             </div>
-                            <h2>{lastResult?.correct ? 'Correct!' : 'Wrong!'}</h2>
+                            <h2>{resultLabel(lastResult, currentQuestion?.slider?.unit)}</h2>
                         </>
                     )}
-                    <p className={styles.waitingText}>Waiting for next question...</p>
+                    {assignment ? (
+                        <button className={styles.submitPicksBtn} onClick={nextAssignmentQuestion}>
+                            Next
+                        </button>
+                    ) : (
+                        <p className={styles.waitingText}>Waiting for next question...</p>
+                    )}
+                </div>
+            )}
+
+            {/* FINISHED SCREEN (assignments, before they close) */}
+            {status === 'FINISHED' && assignment && (
+                <div className={styles.center}>
+                    <h2>All done!</h2>
+                    <p className={styles.finalScore}>{totalScore} points</p>
+                    <p className={styles.waitingText}>
+                        Final ranks are in once the assignment closes on {new Date(assignment.closesAt).toLocaleString()}
+                    </p>
                 </div>
             )}
 
@@ -214,10 +668,27 @@ export default function PlayerApp() {
                             You're #{myRank} with {totalScore} points
                         </div>
                     )}
+                    {myStreak > 1 && <p className={styles.streak}>🔥 {myStreak} in a row</p>}
+                    {teamName && teamRank > 0 && (
+                        <p className={styles.teamRank}>Team {teamName} is #{teamRank}</p>
+                    )}
                     <p className={styles.waitingText}>Get ready for the next question...</p>
                 </div>
             )}
 
+            {/* REMOVED SCREEN - the host kicked or banned us */}
+            {status === 'REMOVED' && (
+                <div className={styles.center}>
+                    <h2>You were removed from the game</h2>
+                    <p className={styles.waitingText}>
+                        {banned ? "The host has banned you from rejoining this game." : "The host removed you from this game."}
+                    </p>
+                    <button className={styles.joinBtn} onClick={() => setStatus('JOIN')}>
+                        Back to join
+                    </button>
+                </div>
+            )}
+
             {/* GAME ENDED SCREEN */}
             {status === 'ENDED' && (
                 <div className={styles.endedScreen}>
@@ -227,6 +698,9 @@ export default function PlayerApp() {
                     </div>
                     <p className={styles.finalScore}>{totalScore} points</p>
                     <p className={styles.finalNickname}>{nickname}</p>
+                    {teamName && teamRank > 0 && (
+                        <p className={styles.teamRank}>Team {teamName} finished #{teamRank}</p>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import type { QuizIssue } from './quiz-schema';
+
+export const ASSIGNMENT_LIMITS = {
+    maxDays: 30 // the whole assignment stays in Redis until it closes
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timestamp = z.iso.datetime({ offset: true }).transform(value => Date.parse(value));
+
+const assignmentSchema = z.object({
+    quizId: z.string().min(1),
+    opensAt: timestamp,
+    closesAt: timestamp
+}).superRefine((assignment, ctx) => {
+    const { opensAt, closesAt } = assignment;
+    if (closesAt <= opensAt) {
+        ctx.addIssue({ code: 'custom', path: ['closesAt'], message: 'Must be after the opening time' });
+    } else if (closesAt - opensAt > ASSIGNMENT_LIMITS.maxDays * DAY_MS) {
+        ctx.addIssue({ code: 'custom', path: ['closesAt'], message: `Assignments can run for at most ${ASSIGNMENT_LIMITS.maxDays} days` });
+    } else if (closesAt <= Date.now()) {
+        ctx.addIssue({ code: 'custom', path: ['closesAt'], message: 'Must be in the future' });
+    }
+});
+
+export type AssignmentInput = z.infer<typeof assignmentSchema>;
+
+export function parseAssignment(body: unknown): { success: true; data: AssignmentInput } | { success: false; issues: QuizIssue[] } {
+    const result = assignmentSchema.safeParse(body);
+    if (result.success) return { success: true, data: result.data };
+
+    return {
+        success: false,
+        issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    };
+}
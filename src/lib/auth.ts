@@ -0,0 +1,84 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { redis } from './redis';
+import { prisma } from './prisma';
+import { SESSION_COOKIE, SESSION_TTL_SECONDS } from './session-cookie';
+
+export { SESSION_COOKIE, sessionCookieOptions } from './session-cookie';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export interface AuthUser {
+    id: string;
+    email: string;
+    role: string;
+}
+
+// Stored as "scrypt$<salt>$<hash>" so the algorithm can be changed later
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, hashHex] = passwordHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, salt, expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export async function createAuthSession(userId: string): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    await redis.set(`auth:${token}`, userId, { EX: SESSION_TTL_SECONDS });
+    return token;
+}
+
+export async function destroyAuthSession(token: string): Promise<void> {
+    await redis.del(`auth:${token}`);
+}
+
+export function parseCookies(cookieHeader: string | null | undefined): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    if (!cookieHeader) return cookies;
+
+    cookieHeader.split(';').forEach(part => {
+        const index = part.indexOf('=');
+        if (index === -1) return;
+        const name = part.slice(0, index).trim();
+        const value = part.slice(index + 1).trim();
+        if (!name) return;
+        try {
+            cookies[name] = decodeURIComponent(value);
+        } catch {
+            // Malformed encoding, e.g. a stray '%' set by another app on the domain; skip that cookie
+        }
+    });
+
+    return cookies;
+}
+
+export function getSessionToken(cookieHeader: string | null | undefined): string | null {
+    return parseCookies(cookieHeader)[SESSION_COOKIE] || null;
+}
+
+export async function getUserIdFromCookieHeader(cookieHeader: string | null | undefined): Promise<string | null> {
+    const token = getSessionToken(cookieHeader);
+    if (!token) return null;
+    return redis.get(`auth:${token}`);
+}
+
+// Resolves the signed-in host for an API route, or null when not authenticated
+export async function getCurrentUser(request: Request): Promise<AuthUser | null> {
+    const userId = await getUserIdFromCookieHeader(request.headers.get('cookie'));
+    if (!userId) return null;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return null;
+
+    return { id: user.id, email: user.email, role: user.role };
+}
@@ -1,128 +1,601 @@
-import { redis } from './redis';
+import { randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
 import { prisma } from './prisma';
+import { Answer, GameState, GameStore, Player, Progress, Question, SessionMeta, Streak } from './game-store';
+import {
+    AnswerResponse, correctOptionIndexes, gradeAnswer, normalizeTypedAnswer, pickedOptions, pointsFor, ScoreBreakdown,
+    sliderRange
+} from './grading';
+import { isScored, roundSliderValue } from './quiz-schema';
+import { isNicknameAllowed } from './nicknames';
+import { initialRevision, lockQuiz } from './quiz-revisions';
+import type { HostQuestion, LobbyPlayer, Standings, TeamSettings } from './socket-protocol';
+import type {
+    OrderingConfig, PointsMode, QuestionConfig, QuestionType, SliderConfig, SliderRange, TypeInConfig
+} from './quiz-schema';
 
-interface Player {
+export type { Question } from './game-store';
+
+export interface LeaderboardEntry {
     id: string;
     nickname: string;
     score: number;
+    speedBonus: number; // the part of the score earned by answering fast
+    streakBonus: number; // and by answering correctly in a row
+    streak: number; // correct answers in a row so far
+    team: number | null;
 }
 
-interface Answer {
-    playerId: string;
-    optionIndex: number;
-    responseTimeMs: number;
+export interface TeamLeaderboardEntry {
+    team: number; // index into the game's team names
+    name: string;
+    score: number; // sum or average of the members' scores, as the host chose
+    members: number;
 }
 
-interface GameState {
-    sessionId: string;
-    quizId: string;
-    hostId: string;
-    status: 'WAITING' | 'ACTIVE' | 'SHOWING_QUESTION' | 'SHOWING_RESULTS' | 'ENDED';
-    currentQuestionIndex: number;
-    players: Record<string, Player>;
-    answers: Record<string, Answer>; // answers for current question
-    questionStartTime: number | null;
-    startTime: number | null;
+// Typed answers (or word cloud entries) that match once normalised, shown under the first spelling submitted
+export interface TypedAnswerGroup {
+    text: string;
+    count: number;
+    correct: boolean;
 }
 
-export interface Question {
-    id: string;
+// Slider guesses counted in ranges of neighbouring steps
+export interface SliderHistogram {
+    correctValue: number;
+    unit: string;
+    buckets: { from: number; to: number; count: number }[];
+}
+
+export interface QuestionResults {
+    correctOptionIndexes: number[];
+    answerDistribution: number[]; // how many players picked each option
+    correctCount: number;
+    acceptedAnswers?: string[]; // type-in questions only
+    typedAnswers?: TypedAnswerGroup[]; // type-in and word cloud questions, most common first
+    histogram?: SliderHistogram; // slider questions only
+    ordering?: {
+        correctOrder: number[];
+        positionErrors: number[]; // per position, how many players put the wrong item there
+    };
+}
+
+// Images a player's device shows; none unless the author chose to show them beyond the host screen
+export interface QuestionImages {
+    imageId?: string;
+    optionImageIds?: string[];
+}
+
+// A question as a player's device gets it, never with the answer
+export type PlayerQuestion = {
+    questionIndex: number;
+    totalQuestions: number;
+    type: QuestionType;
     text: string;
     options: string[];
-    correctOptionIndex: number;
+    slider?: SliderRange;
     timeLimit: number;
-    order: number;
+    deadline: number;
+    serverTime: number;
+} & QuestionImages;
+
+// Opening times of a self-paced game, and whether the player has been through every question
+export interface AssignmentStatus {
+    opensAt: number;
+    closesAt: number;
+    finished: boolean;
+}
+
+// Everything a (re)connecting player needs to render the current phase
+export interface PlayerSnapshot {
+    playerId: string;
+    nickname: string;
+    score: number;
+    status: GameState['status'];
+    team: number | null;
+    teams: Pick<TeamSettings, 'names' | 'choice'> | null;
+    assignment: AssignmentStatus | null; // null for live games
+    question: PlayerQuestion | null; // in an assignment, the one the player is on
+    answer: (AnswerResponse & {
+        correct: boolean;
+        score: number;
+        distance?: number;
+        scored: boolean;
+        streak: number;
+        breakdown: ScoreBreakdown;
+    }) | null;
+    results: QuestionResults | null;
+    leaderboard: LeaderboardEntry[] | null;
+    teamLeaderboard: TeamLeaderboardEntry[] | null;
+}
+
+// Everything a host screen attaching to a running game needs to render the current phase
+export interface HostSnapshot {
+    sessionId: string;
+    status: GameState['status'];
+    teams: TeamSettings | null;
+    players: LobbyPlayer[];
+    question: HostQuestion | null; // while a question is open or its results are up
+    answerCount: number;
+    results: QuestionResults | null; // also while a poll or word cloud is still open
+    standings: Standings | null; // once the game has ended
+}
+
+type QuestionClosedHandler = (joinCode: string, results: QuestionResults) => void;
+
+const JOIN_CODE_ATTEMPTS = 20;
+const TYPED_ANSWER_GROUPS = 10;
+const WORD_CLOUD_WORDS = 40;
+const SLIDER_BUCKETS = 10;
+
+// Answers arriving this soon after the deadline still count, to absorb network latency
+const ANSWER_GRACE_MS = 500;
+
+// Players must not see ordering items already in sequence, so the snapshot shuffles them
+function shuffleOrderingItems(question: Question): Question {
+    if (question.type !== 'ORDERING') return question;
+
+    const config = question.config as OrderingConfig;
+    const shown = question.options.map((_, index) => index); // original index at each position
+    do {
+        for (let i = shown.length - 1; i > 0; i--) {
+            const j = randomInt(i + 1);
+            [shown[i], shown[j]] = [shown[j], shown[i]];
+        }
+    } while (shown.every((index, position) => index === config.correctOrder[position]));
+
+    return {
+        ...question,
+        options: shown.map(index => question.options[index]),
+        config: { ...config, correctOrder: config.correctOrder.map(index => shown.indexOf(index)) }
+    };
+}
+
+export interface SessionOptions {
+    teams?: TeamSettings | null;
+    assignment?: { opensAt: number; closesAt: number }; // self-paced between these times
 }
 
+export function playerImages(question: Question): QuestionImages {
+    if (!question.showImagesToPlayers) return {};
+    return {
+        imageId: question.imageId ?? undefined,
+        optionImageIds: question.optionImageIds.length > 0 ? question.optionImageIds : undefined
+    };
+}
+
+// A streak carries over unscored questions in between, but not a scored one the player missed.
+// Questions before untilIndex count as over.
+function currentStreak(streak: Streak | undefined, questions: Question[], untilIndex: number): number {
+    if (!streak || streak.count === 0) return 0;
+    const skipped = questions.slice(streak.questionIndex + 1, untilIndex);
+    return skipped.every(question => !isScored(question.type)) ? streak.count : 0;
+}
+
+function toPlayerQuestion(question: Question, questionIndex: number, totalQuestions: number, deadline: number): PlayerQuestion {
+    return {
+        questionIndex,
+        totalQuestions,
+        type: question.type,
+        text: question.text,
+        options: question.options,
+        slider: sliderRange(question),
+        ...playerImages(question),
+        timeLimit: question.timeLimit,
+        deadline,
+        serverTime: Date.now()
+    };
+}
+
+function snapshotAnswer(answer: Answer, question: Question): PlayerSnapshot['answer'] {
+    return {
+        optionIndex: answer.optionIndex,
+        optionIndexes: answer.optionIndexes,
+        text: answer.text,
+        value: answer.value,
+        order: answer.order,
+        correct: answer.correct,
+        score: answer.points,
+        distance: answer.distance,
+        scored: isScored(question.type),
+        streak: answer.streak,
+        breakdown: answer.breakdown
+    };
+}
+
+// The report's copy of an answer, written when it comes in and again when the game ends
+function answerRow(sessionId: string, questionIndex: number, question: Question, answer: Answer) {
+    const { playerId, optionIndex, optionIndexes, text, value, order, correct, responseTimeMs, points } = answer;
+    return {
+        sessionId,
+        playerId,
+        questionId: question.id,
+        questionIndex,
+        questionText: question.text,
+        questionOptions: question.options,
+        optionIndex: optionIndex ?? null,
+        response: { optionIndex, optionIndexes, text, value, order },
+        correct,
+        responseTimeMs,
+        points
+    };
+}
+
+function tokensMatch(expected: string, actual: unknown): boolean {
+    if (typeof actual !== 'string') return false;
+    const expectedBuf = Buffer.from(expected);
+    const actualBuf = Buffer.from(actual);
+    return actualBuf.length === expectedBuf.length && timingSafeEqual(actualBuf, expectedBuf);
+}
+
+// How long past its deadline a question may stay open before another instance closes it,
+// in case the one that opened it went away
+const DEADLINE_TAKEOVER_MS = 2000;
+
 export class GameEngine {
 
-    static async createSession(quizId: string, hostId: string): Promise<string> {
-        // Generate a 6-digit Join Code
-        const joinCode = Math.floor(100000 + Math.random() * 900000).toString();
-
-        // Create DB record
-        const session = await prisma.session.create({
-            data: {
-                joinCode,
-                quizId,
-                hostId,
-                status: 'WAITING'
-            }
+    // Timers for the questions this instance opened; the shared schedule in Redis backs them up
+    private static questionTimers = new Map<string, { questionIndex: number; handle: NodeJS.Timeout }>();
+    private static questionClosedHandler: QuestionClosedHandler | null = null;
+    // Session questions never change after creation, so they are cached by session id
+    private static questionCache = new Map<string, Question[]>();
+
+    // Called whenever a question closes, whether by timer, all answers in, or the host
+    static onQuestionClosed(handler: QuestionClosedHandler) {
+        this.questionClosedHandler = handler;
+    }
+
+    static async createSession(
+        quizId: string, hostId: string, options: SessionOptions = {}
+    ): Promise<{ sessionId: string; joinCode: string; hostToken: string }> {
+        // The questions are the latest revision's, so the session is linked to it; both are read
+        // under the quiz's lock so a save can't land in between
+        const { quiz, revisionId } = await prisma.$transaction(async tx => {
+            await lockQuiz(tx, quizId, 'SHARE');
+            const quiz = await tx.quiz.findFirst({
+                where: { id: quizId, ownerId: hostId },
+                include: {
+                    questions: {
+                        orderBy: { order: 'asc' }
+                    },
+                    revisions: {
+                        orderBy: { number: 'desc' },
+                        take: 1,
+                        select: { id: true }
+                    }
+                }
+            });
+            if (!quiz) throw new Error("Quiz not found");
+            return { quiz, revisionId: quiz.revisions[0]?.id ?? (await initialRevision(tx, quiz)).id };
         });
 
-        // Initialize Redis State
-        const initialState: GameState = {
-            sessionId: session.id,
+        // Freeze the questions so edits to the quiz can't change a game in progress
+        const questions: Question[] = quiz.questions.map(q => shuffleOrderingItems({
+            id: q.id,
+            type: q.type as QuestionType,
+            text: q.text,
+            options: q.options,
+            correctOptionIndex: q.correctOptionIndex,
+            config: q.config as QuestionConfig | null,
+            imageId: q.imageId,
+            optionImageIds: q.optionImageIds,
+            showImagesToPlayers: q.showImagesToPlayers,
+            pointsMode: q.pointsMode as PointsMode,
+            speedBonus: q.speedBonus,
+            timeLimit: q.timeLimit,
+            order: q.order
+        }));
+
+        const sessionId = randomUUID();
+        const hostToken = randomBytes(24).toString('hex');
+        // Assignments have no lobby; they run from the moment they are published
+        const { assignment } = options;
+        const status = assignment ? 'ACTIVE' : 'WAITING';
+
+        // Initialize Redis State under a join code no live game is using
+        const joinCode = await this.allocateJoinCode({
+            sessionId,
             quizId,
             hostId,
-            status: 'WAITING',
+            hostToken,
+            status,
+            mode: assignment ? 'ASSIGNMENT' : 'LIVE',
             currentQuestionIndex: -1,
-            players: {},
-            answers: {},
             questionStartTime: null,
-            startTime: null
-        };
+            questionDeadline: null,
+            startTime: assignment?.opensAt ?? null,
+            teams: options.teams ?? null,
+            opensAt: assignment?.opensAt ?? null,
+            closesAt: assignment?.closesAt ?? null
+        }, questions);
 
-        await redis.set(`session:${joinCode}`, JSON.stringify(initialState));
-        return joinCode;
+        // Create DB record, handing the code back if that fails
+        try {
+            await prisma.session.create({
+                data: {
+                    id: sessionId,
+                    joinCode,
+                    quizId,
+                    revisionId,
+                    hostId,
+                    status,
+                    ...(assignment && {
+                        mode: 'ASSIGNMENT',
+                        opensAt: new Date(assignment.opensAt),
+                        closesAt: new Date(assignment.closesAt),
+                        startedAt: new Date(assignment.opensAt)
+                    })
+                }
+            });
+        } catch (e) {
+            await GameStore.remove(joinCode);
+            throw e;
+        }
+        this.questionCache.set(sessionId, questions);
+
+        return { sessionId, joinCode, hostToken };
     }
 
-    static async joinSession(joinCode: string, nickname: string, playerId: string) {
-        const stateRaw = await redis.get(`session:${joinCode}`);
-        if (!stateRaw) throw new Error("Session not found");
+    // Picks random 6-digit codes until one is free; codes of ended or expired games are reused
+    private static async allocateJoinCode(meta: SessionMeta, questions: Question[]): Promise<string> {
+        for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+            const joinCode = Math.floor(100000 + Math.random() * 900000).toString();
+            if (await GameStore.create(joinCode, meta, questions)) return joinCode;
+        }
+        throw new Error("No join code available, please try again");
+    }
+
+    // Ends games whose live state expired without them finishing, e.g. the host walked away,
+    // and assignments that are past their closing time
+    static async endAbandonedSessions(): Promise<number> {
+        const open = await prisma.session.findMany({
+            where: { status: { in: ['WAITING', 'ACTIVE'] } },
+            select: { id: true, joinCode: true }
+        });
+
+        const abandoned: string[] = [];
+        let closed = 0;
+        for (const session of open) {
+            // The code may already belong to a newer game, so match on the session id
+            const meta = await GameStore.getMeta(session.joinCode);
+            if (!meta || meta.sessionId !== session.id) {
+                abandoned.push(session.id);
+            } else if (meta.closesAt !== null && meta.closesAt <= Date.now() && meta.status !== 'ENDED') {
+                await this.endGame(session.joinCode);
+                closed++;
+            }
+        }
+        if (abandoned.length === 0) return closed;
+
+        abandoned.forEach(id => this.questionCache.delete(id));
+        const { count } = await prisma.session.updateMany({
+            where: { id: { in: abandoned }, status: { in: ['WAITING', 'ACTIVE'] } },
+            data: { status: 'ENDED', endedAt: new Date() }
+        });
+        return count + closed;
+    }
 
-        const state: GameState = JSON.parse(stateRaw);
-        if (state.status !== 'WAITING') throw new Error("Game already started");
+    // Checks that a control request comes from the host that created the session
+    static async verifyHost(joinCode: string, hostToken: unknown, userId: string | undefined): Promise<boolean> {
+        if (typeof hostToken !== 'string' || !userId) return false;
 
-        state.players[playerId] = {
-            id: playerId,
-            nickname,
-            score: 0
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta || meta.hostId !== userId) return false;
+
+        return tokensMatch(meta.hostToken, hostToken);
+    }
+
+    // Lets another of the host's devices onto a running game, e.g. a projector or a phone.
+    // Null unless the user is the host who created it.
+    static async attachHost(joinCode: string, userId: string): Promise<{ hostToken: string; snapshot: HostSnapshot } | null> {
+        const state = await this.getSession(joinCode);
+        if (!state) throw new Error("Session not found");
+        if (state.hostId !== userId) return null;
+        if (state.mode === 'ASSIGNMENT') throw new Error("Assignments have no live screens");
+
+        // Not through getQuestions for a finished game, which would cache them again
+        const questions = state.status === 'ENDED'
+            ? await GameStore.getQuestions(joinCode) ?? []
+            : await this.getQuestions(joinCode, state.sessionId);
+        const question = questions[state.currentQuestionIndex];
+        const shown = question && (state.status === 'SHOWING_QUESTION' || state.status === 'SHOWING_RESULTS') ? question : null;
+
+        return {
+            hostToken: state.hostToken,
+            snapshot: {
+                sessionId: state.sessionId,
+                status: state.status,
+                teams: state.teams,
+                players: Object.values(state.players).map(({ id, nickname, score, team }) => ({ id, nickname, score, team })),
+                question: shown && {
+                    question: shown,
+                    questionIndex: state.currentQuestionIndex,
+                    totalQuestions: questions.length,
+                    deadline: state.questionDeadline ?? Date.now(),
+                    serverTime: Date.now()
+                },
+                answerCount: Object.keys(state.answers).length,
+                results: shown && (state.status === 'SHOWING_RESULTS' || !isScored(shown.type))
+                    ? this.computeResults(state, shown)
+                    : null,
+                standings: state.status === 'ENDED'
+                    ? { leaderboard: this.rankPlayers(state, questions), teamLeaderboard: this.rankTeams(state) }
+                    : null
+            }
         };
+    }
 
-        await redis.set(`session:${joinCode}`, JSON.stringify(state));
-        return state;
+    static async joinSession(
+        joinCode: string, nickname: string, deviceId: string
+    ): Promise<{ player: Player; snapshot: PlayerSnapshot }> {
+        if (!isNicknameAllowed(nickname)) throw new Error("Please choose a different nickname");
+
+        // Ids and resume tokens are issued by the server so players can't impersonate each other
+        const id = randomUUID();
+        const token = randomBytes(24).toString('hex');
+
+        const result = await GameStore.addPlayer(joinCode, { id, nickname, token, deviceId });
+        if (result === 'NOT_FOUND') throw new Error("Session not found");
+        if (result === 'STARTED') throw new Error("Game already started");
+        if (result === 'NOT_OPEN') throw new Error("Assignment is not open yet");
+        if (result === 'CLOSED') throw new Error("Assignment is closed");
+        if (result === 'BANNED') throw new Error("You have been removed from this game");
+
+        // Read back, since the store picks the player's team and may number their nickname
+        const state = await this.getSession(joinCode);
+        const player = state?.players[id];
+        if (!state || !player) throw new Error("Session not found");
+
+        await this.persist('player join', prisma.sessionPlayer.create({
+            data: { id: player.id, sessionId: state.sessionId, nickname: player.nickname }
+        }));
+
+        return { player, snapshot: await this.getPlayerSnapshot(joinCode, state, player.id) };
     }
 
-    static async getSession(joinCode: string): Promise<GameState | null> {
-        const stateRaw = await redis.get(`session:${joinCode}`);
-        if (!stateRaw) return null;
-        return JSON.parse(stateRaw) as GameState;
+    // Re-attaches a returning player to their existing record, in any phase of the game
+    static async resumeSession(joinCode: string, playerId: string, playerToken: unknown): Promise<{ player: Player; snapshot: PlayerSnapshot }> {
+        const state = await this.getSession(joinCode);
+        if (!state) throw new Error("Session not found");
+
+        const player = state.players[playerId];
+        if (!player || !tokensMatch(player.token, playerToken)) throw new Error("Player not found");
+
+        return { player, snapshot: await this.getPlayerSnapshot(joinCode, state, playerId) };
     }
 
-    static async getQuizQuestions(quizId: string): Promise<Question[]> {
-        const quiz = await prisma.quiz.findUnique({
-            where: { id: quizId },
-            include: {
-                questions: {
-                    orderBy: { order: 'asc' }
+    // The host takes a player out of the game, in the lobby or while it runs; with ban set
+    // their device can't join it again. Disconnecting their sockets is up to the caller.
+    static async removePlayer(joinCode: string, playerId: string, ban: boolean): Promise<{
+        questionOpen: boolean; // a live question whose answer count changed
+        questionIndex: number;
+        answerCount: number;
+        totalPlayers: number;
+        allAnswered: boolean;
+    }> {
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta) throw new Error("Session not found");
+        if (meta.status === 'ENDED') throw new Error("Game already ended");
+
+        const result = await GameStore.removePlayer(joinCode, playerId, ban);
+        if (result.status === 'NOT_FOUND') throw new Error("Player not found");
+
+        // Their answers go with them, so the report only lists players who stayed
+        await this.persist('player removal', prisma.sessionPlayer.deleteMany({ where: { id: playerId } }));
+
+        const questionOpen = meta.mode === 'LIVE' && meta.status === 'SHOWING_QUESTION';
+        return {
+            questionOpen,
+            questionIndex: meta.currentQuestionIndex,
+            answerCount: result.answerCount,
+            totalPlayers: result.playerCount,
+            // The player everyone was waiting on may be the one removed
+            allAnswered: questionOpen && result.playerCount > 0 && result.answerCount >= result.playerCount
+        };
+    }
+
+    // Players can only switch teams in the lobby, and only if the host allowed it
+    static async chooseTeam(joinCode: string, playerId: string, team: number): Promise<void> {
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta) throw new Error("Session not found");
+        if (!meta.teams?.choice) throw new Error("Teams are assigned by the host");
+        if (team >= meta.teams.names.length) throw new Error("No such team");
+
+        const result = await GameStore.setTeam(joinCode, playerId, team);
+        if (result === 'NOT_FOUND') throw new Error("Player not found");
+        if (result === 'STARTED') throw new Error("Game already started");
+    }
+
+    static async getPlayerSnapshot(joinCode: string, state: GameState, playerId: string): Promise<PlayerSnapshot> {
+        const player = state.players[playerId];
+        const snapshot: PlayerSnapshot = {
+            playerId,
+            nickname: player.nickname,
+            score: player.score,
+            status: state.status,
+            team: player.team,
+            teams: state.teams && { names: state.teams.names, choice: state.teams.choice },
+            assignment: null,
+            question: null,
+            answer: null,
+            results: null,
+            leaderboard: null,
+            teamLeaderboard: null
+        };
+
+        if (state.mode === 'ASSIGNMENT' && state.opensAt !== null && state.closesAt !== null) {
+            const questions = await this.getQuestions(joinCode, state.sessionId);
+            const progress = await GameStore.getProgress(joinCode, playerId);
+            snapshot.assignment = {
+                opensAt: state.opensAt,
+                closesAt: state.closesAt,
+                finished: progress !== null && progress.questionIndex >= questions.length
+            };
+
+            const question = progress && questions[progress.questionIndex];
+            if (state.status === 'ACTIVE' && progress && question) {
+                snapshot.question = toPlayerQuestion(question, progress.questionIndex, questions.length, progress.deadline);
+                const answer = await GameStore.getAnswer(joinCode, progress.questionIndex, playerId);
+                if (answer) snapshot.answer = snapshotAnswer(answer, question);
+            }
+        } else if (state.status === 'SHOWING_QUESTION' || state.status === 'SHOWING_RESULTS') {
+            const questions = await this.getQuestions(joinCode, state.sessionId);
+            const question = questions[state.currentQuestionIndex];
+            if (question) {
+                snapshot.question = toPlayerQuestion(
+                    question, state.currentQuestionIndex, questions.length, state.questionDeadline || Date.now()
+                );
+
+                const answer = state.answers[playerId];
+                if (answer) snapshot.answer = snapshotAnswer(answer, question);
+
+                if (state.status === 'SHOWING_RESULTS') {
+                    snapshot.results = this.computeResults(state, question);
                 }
             }
-        });
-        if (!quiz) return [];
-        return quiz.questions.map(q => ({
-            id: q.id,
-            text: q.text,
-            options: q.options,
-            correctOptionIndex: q.correctOptionIndex,
-            timeLimit: q.timeLimit,
-            order: q.order
-        }));
+        }
+
+        if (state.status === 'ENDED') {
+            // Not through getQuestions, which would cache them again for a finished game
+            snapshot.leaderboard = this.rankPlayers(state, await GameStore.getQuestions(joinCode) ?? []);
+            snapshot.teamLeaderboard = this.rankTeams(state);
+        }
+
+        return snapshot;
+    }
+
+    static async getSession(joinCode: string): Promise<GameState | null> {
+        return GameStore.load(joinCode);
+    }
+
+    // Serves the session's question snapshot, going to Redis only on a cache miss
+    static async getQuestions(joinCode: string, sessionId: string): Promise<Question[]> {
+        const cached = this.questionCache.get(sessionId);
+        if (cached) return cached;
+
+        const questions = await GameStore.getQuestions(joinCode);
+        if (!questions) throw new Error("Session not found");
+
+        this.questionCache.set(sessionId, questions);
+        return questions;
     }
 
     static async startGame(joinCode: string): Promise<GameState | null> {
+        const started = await GameStore.compareAndSet(joinCode, { status: 'WAITING' }, {
+            status: 'ACTIVE',
+            startTime: Date.now(),
+            currentQuestionIndex: -1
+        });
+        if (!started) {
+            if (!(await GameStore.getMeta(joinCode))) return null;
+            throw new Error("Game already started");
+        }
+
         const state = await this.getSession(joinCode);
         if (!state) return null;
 
-        state.status = 'ACTIVE';
-        state.startTime = Date.now();
-        state.currentQuestionIndex = -1;
-
-        await redis.set(`session:${joinCode}`, JSON.stringify(state));
-
         // Update DB
         await prisma.session.update({
-            where: { joinCode },
+            where: { id: state.sessionId },
             data: { status: 'ACTIVE', startedAt: new Date() }
         });
 
@@ -130,122 +603,437 @@ export class GameEngine {
     }
 
     static async nextQuestion(joinCode: string): Promise<{ state: GameState; question: Question | null; totalQuestions: number }> {
-        const state = await this.getSession(joinCode);
-        if (!state) throw new Error("Session not found");
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta) throw new Error("Session not found");
+        if (meta.mode === 'ASSIGNMENT') throw new Error("Questions are handed out to each player");
+        if (meta.status === 'WAITING') throw new Error("Game not started");
+        if (meta.status === 'ENDED') throw new Error("Game already ended");
 
-        const questions = await this.getQuizQuestions(state.quizId);
+        const questions = await this.getQuestions(joinCode, meta.sessionId);
 
-        state.currentQuestionIndex++;
-        state.answers = {}; // Clear answers for new question
-        state.questionStartTime = Date.now();
-        state.status = 'SHOWING_QUESTION';
+        // Answers are stored per question index, so moving on needs no clearing
+        const questionIndex = meta.currentQuestionIndex + 1;
+        const questionStartTime = Date.now();
+        const question = questions[questionIndex] || null;
 
-        const question = questions[state.currentQuestionIndex] || null;
+        const advanced = await GameStore.compareAndSet(joinCode, {
+            status: meta.status,
+            currentQuestionIndex: meta.currentQuestionIndex
+        }, {
+            currentQuestionIndex: questionIndex,
+            questionStartTime,
+            questionDeadline: question ? questionStartTime + question.timeLimit * 1000 : null,
+            status: question ? 'SHOWING_QUESTION' : 'ENDED'
+        });
+        if (!advanced) throw new Error("Game state changed, please try again");
 
+        if (meta.status === 'SHOWING_QUESTION') {
+            await this.cancelQuestionClose(joinCode, meta.currentQuestionIndex);
+        }
         if (!question) {
-            state.status = 'ENDED';
-            await prisma.session.update({
-                where: { joinCode },
-                data: { status: 'ENDED', endedAt: new Date() }
-            });
+            await this.saveFinalResults(joinCode, meta.sessionId);
         }
 
-        await redis.set(`session:${joinCode}`, JSON.stringify(state));
+        const state = await this.getSession(joinCode);
+        if (!state) throw new Error("Session not found");
+
+        if (question && state.questionDeadline) {
+            await this.scheduleQuestionClose(joinCode, questionIndex, state.questionDeadline);
+        }
 
         return { state, question, totalQuestions: questions.length };
     }
 
-    static async submitAnswer(joinCode: string, playerId: string, optionIndex: number): Promise<{ correct: boolean; score: number }> {
-        const state = await this.getSession(joinCode);
-        if (!state) throw new Error("Session not found");
-        if (state.status !== 'SHOWING_QUESTION') throw new Error("Not accepting answers");
-        if (state.answers[playerId]) throw new Error("Already answered");
+    // Hands an assignment player their next question, or null once they have been through them all.
+    // A question that is still open is handed out again, so asking twice can't skip it.
+    static async nextPlayerQuestion(joinCode: string, playerId: string): Promise<PlayerQuestion | null> {
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta) throw new Error("Session not found");
+        if (meta.mode !== 'ASSIGNMENT' || meta.closesAt === null) throw new Error("Questions are run by the host");
 
-        const questions = await this.getQuizQuestions(state.quizId);
-        const question = questions[state.currentQuestionIndex];
-        if (!question) throw new Error("No current question");
+        const now = Date.now();
+        if (meta.status !== 'ACTIVE' || now >= meta.closesAt) throw new Error("Assignment is closed");
 
-        const responseTimeMs = Date.now() - (state.questionStartTime || Date.now());
-        const correct = optionIndex === question.correctOptionIndex;
+        const questions = await this.getQuestions(joinCode, meta.sessionId);
+        const progress = await GameStore.getProgress(joinCode, playerId);
+        const fromIndex = progress?.questionIndex ?? -1;
+        if (fromIndex >= questions.length) return null;
 
-        // Calculate score: base 1000 points, bonus for speed (max 500 extra)
-        let points = 0;
-        if (correct) {
-            const timeBonus = Math.max(0, 1 - (responseTimeMs / (question.timeLimit * 1000)));
-            points = Math.round(1000 + (timeBonus * 500));
+        if (progress && now <= progress.deadline && !(await GameStore.getAnswer(joinCode, fromIndex, playerId))) {
+            return toPlayerQuestion(questions[fromIndex], fromIndex, questions.length, progress.deadline);
         }
 
-        state.answers[playerId] = {
+        // The timer runs on the server from here; the assignment closing cuts it short
+        const questionIndex = fromIndex + 1;
+        const question = questions[questionIndex] || null;
+        const next: Progress = {
+            questionIndex,
+            startTime: now,
+            deadline: question ? Math.min(now + question.timeLimit * 1000, meta.closesAt) : now
+        };
+
+        const result = await GameStore.advanceProgress(joinCode, playerId, fromIndex, next);
+        if (result === 'NOT_FOUND') throw new Error("Player not found");
+        if (result === 'CLOSED') throw new Error("Assignment is closed");
+        if (result === 'CHANGED') throw new Error("Game state changed, please try again");
+
+        return question && toPlayerQuestion(question, questionIndex, questions.length, next.deadline);
+    }
+
+    // The deadline goes on the shared schedule, and this instance keeps a timer to close the question
+    // on time. Whoever claims the deadline first closes it, so the question closes exactly once.
+    private static async scheduleQuestionClose(joinCode: string, questionIndex: number, deadline: number) {
+        await GameStore.scheduleDeadline(joinCode, questionIndex, deadline);
+
+        this.clearQuestionTimer(joinCode);
+        const handle = setTimeout(() => {
+            this.questionTimers.delete(joinCode);
+            GameStore.claimDeadline(joinCode, questionIndex)
+                .then(claimed => claimed ? this.closeQuestion(joinCode, questionIndex) : null)
+                .catch(e => console.error(e));
+        }, Math.max(0, deadline - Date.now()));
+        this.questionTimers.set(joinCode, { questionIndex, handle });
+    }
+
+    private static async cancelQuestionClose(joinCode: string, questionIndex: number) {
+        const timer = this.questionTimers.get(joinCode);
+        if (timer?.questionIndex === questionIndex) this.clearQuestionTimer(joinCode);
+        await GameStore.claimDeadline(joinCode, questionIndex);
+    }
+
+    private static clearQuestionTimer(joinCode: string) {
+        const timer = this.questionTimers.get(joinCode);
+        if (timer) {
+            clearTimeout(timer.handle);
+            this.questionTimers.delete(joinCode);
+        }
+    }
+
+    // Closes questions still open well past their deadline, whose instance is no longer there to do it
+    static async closeOverdueQuestions(): Promise<number> {
+        const overdue = await GameStore.claimDueDeadlines(Date.now() - DEADLINE_TAKEOVER_MS);
+        let closed = 0;
+        for (const { joinCode, questionIndex } of overdue) {
+            if (await this.closeQuestion(joinCode, questionIndex)) closed++;
+        }
+        return closed;
+    }
+
+    static async submitAnswer(joinCode: string, playerId: string, response: AnswerResponse): Promise<{
+        correct: boolean;
+        score: number;
+        distance?: number;
+        scored: boolean;
+        streak: number;
+        breakdown: ScoreBreakdown;
+        questionIndex: number;
+        answerCount: number;
+        totalPlayers: number;
+        allAnswered: boolean;
+    }> {
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta) throw new Error("Session not found");
+
+        // In an assignment the open question is the player's own; the store checks it is still open
+        const selfPaced = meta.mode === 'ASSIGNMENT';
+        const progress = selfPaced ? await GameStore.getProgress(joinCode, playerId) : null;
+        if (selfPaced ? meta.status !== 'ACTIVE' || !progress : meta.status !== 'SHOWING_QUESTION') {
+            throw new Error("Not accepting answers");
+        }
+
+        const questions = await this.getQuestions(joinCode, meta.sessionId);
+        const questionIndex = progress ? progress.questionIndex : meta.currentQuestionIndex;
+        const question = questions[questionIndex];
+        if (!question) throw new Error("No current question");
+
+        const now = Date.now();
+        const startTime = progress ? progress.startTime : meta.questionStartTime;
+        const responseTimeMs = now - (startTime || now);
+        const grade = gradeAnswer(question, response);
+        const { correct, distance } = grade;
+
+        // Unscored questions neither extend nor break a streak, so they leave it unwritten
+        const scored = isScored(question.type);
+        const previousStreak = currentStreak(await GameStore.getStreak(joinCode, playerId) ?? undefined, questions, questionIndex);
+        const streak = !scored ? previousStreak : correct ? previousStreak + 1 : 0;
+        const breakdown = pointsFor(question, grade, responseTimeMs, streak);
+        const points = breakdown.total;
+
+        const answer: Answer = {
             playerId,
-            optionIndex,
-            responseTimeMs
+            optionIndex: response.optionIndex,
+            optionIndexes: response.optionIndexes,
+            text: response.text,
+            value: response.value,
+            order: response.order,
+            responseTimeMs,
+            correct,
+            points,
+            breakdown,
+            streak,
+            distance
         };
 
-        if (state.players[playerId]) {
-            state.players[playerId].score += points;
+        // The store re-checks the question is still open and that this is the player's first answer
+        const result = await GameStore.recordAnswer(
+            joinCode, questionIndex, answer, scored ? { count: streak, questionIndex } : null, now, ANSWER_GRACE_MS
+        );
+
+        switch (result.status) {
+            case 'NOT_FOUND': throw new Error("Session not found");
+            case 'NOT_JOINED': throw new Error("Not joined to this game");
+            case 'CLOSED': throw new Error("Not accepting answers");
+            case 'LATE': throw new Error("Time is up");
+            case 'ALREADY_ANSWERED': throw new Error("Already answered");
         }
 
-        await redis.set(`session:${joinCode}`, JSON.stringify(state));
+        // The running score keeps the report current while the game, or an assignment, is still open
+        await this.persist('answer', prisma.$transaction([
+            prisma.sessionAnswer.create({ data: answerRow(meta.sessionId, questionIndex, question, answer) }),
+            prisma.sessionPlayer.update({
+                where: { id: playerId },
+                data: { score: { increment: points } }
+            })
+        ]));
 
-        return { correct, score: points };
+        return {
+            correct,
+            score: points,
+            distance,
+            scored,
+            streak,
+            breakdown,
+            questionIndex,
+            answerCount: result.answerCount,
+            totalPlayers: result.playerCount,
+            // Assignment questions close per player, by their own timer
+            allAnswered: !selfPaced && result.answerCount >= result.playerCount
+        };
     }
 
-    static async showResults(joinCode: string): Promise<{
-        state: GameState;
-        correctOptionIndex: number;
-        answerDistribution: number[];
-        correctCount: number;
-    }> {
+    // Closes answering for a question exactly once and notifies the close handler.
+    // With a questionIndex it only closes that question, so a stale timer can't close the next one.
+    static async closeQuestion(joinCode: string, questionIndex?: number): Promise<QuestionResults | null> {
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta || meta.status !== 'SHOWING_QUESTION') return null;
+        if (questionIndex !== undefined && meta.currentQuestionIndex !== questionIndex) return null;
+
+        // Only the caller that flips the status gets to publish the results
+        const closed = await GameStore.compareAndSet(joinCode, {
+            status: 'SHOWING_QUESTION',
+            currentQuestionIndex: meta.currentQuestionIndex
+        }, { status: 'SHOWING_RESULTS' });
+        if (!closed) return null;
+        await this.cancelQuestionClose(joinCode, meta.currentQuestionIndex);
+
         const state = await this.getSession(joinCode);
-        if (!state) throw new Error("Session not found");
+        const questions = await this.getQuestions(joinCode, meta.sessionId);
+        const question = questions[meta.currentQuestionIndex];
+        if (!state || !question) throw new Error("No current question");
+
+        const results = this.computeResults(state, question);
+        this.questionClosedHandler?.(joinCode, results);
+        return results;
+    }
 
-        const questions = await this.getQuizQuestions(state.quizId);
+    // Running results for unscored questions, which have no answer to give away while still open
+    static async getLiveResults(joinCode: string): Promise<QuestionResults | null> {
+        const state = await this.getSession(joinCode);
+        if (!state || state.status !== 'SHOWING_QUESTION') return null;
+
+        const questions = await this.getQuestions(joinCode, state.sessionId);
         const question = questions[state.currentQuestionIndex];
-        if (!question) throw new Error("No current question");
+        if (!question || isScored(question.type)) return null;
 
-        state.status = 'SHOWING_RESULTS';
-        await redis.set(`session:${joinCode}`, JSON.stringify(state));
+        return this.computeResults(state, question);
+    }
 
-        // Calculate answer distribution
-        const distribution = [0, 0, 0, 0];
+    private static computeResults(state: GameState, question: Question): QuestionResults {
+        // Calculate answer distribution, one slot per option
+        const distribution: number[] = question.options.map(() => 0);
         let correctCount = 0;
 
         Object.values(state.answers).forEach(answer => {
-            if (answer.optionIndex >= 0 && answer.optionIndex < 4) {
-                distribution[answer.optionIndex]++;
-            }
-            if (answer.optionIndex === question.correctOptionIndex) {
-                correctCount++;
-            }
+            new Set(pickedOptions(answer)).forEach(index => {
+                if (index >= 0 && index < distribution.length) distribution[index]++;
+            });
+            if (answer.correct) correctCount++;
         });
 
-        return {
-            state,
-            correctOptionIndex: question.correctOptionIndex,
+        const results: QuestionResults = {
+            correctOptionIndexes: correctOptionIndexes(question),
             answerDistribution: distribution,
             correctCount
         };
+        if (question.type === 'TYPE_IN') {
+            const config = question.config as TypeInConfig;
+            results.acceptedAnswers = config.acceptedAnswers;
+            results.typedAnswers = this.groupTypedAnswers(
+                Object.values(state.answers), text => normalizeTypedAnswer(text, config), TYPED_ANSWER_GROUPS
+            );
+        }
+        if (question.type === 'WORD_CLOUD') {
+            results.typedAnswers = this.groupTypedAnswers(
+                Object.values(state.answers), text => text.trim().replace(/\s+/g, ' ').toLocaleLowerCase(), WORD_CLOUD_WORDS
+            );
+        }
+        if (question.type === 'SLIDER') {
+            results.histogram = this.sliderHistogram(Object.values(state.answers), question.config as SliderConfig);
+        }
+        if (question.type === 'ORDERING') {
+            const { correctOrder } = question.config as OrderingConfig;
+            const positionErrors = correctOrder.map(() => 0);
+            Object.values(state.answers).forEach(answer => {
+                answer.order?.forEach((index, position) => {
+                    if (index !== correctOrder[position]) positionErrors[position]++;
+                });
+            });
+            results.ordering = { correctOrder, positionErrors };
+        }
+        return results;
     }
 
-    static async getLeaderboard(joinCode: string): Promise<Player[]> {
-        const state = await this.getSession(joinCode);
-        if (!state) return [];
+    private static sliderHistogram(answers: Answer[], config: SliderConfig): SliderHistogram {
+        const positions = Math.round((config.max - config.min) / config.step) + 1;
+        const stepsPerBucket = Math.ceil(positions / Math.min(SLIDER_BUCKETS, positions));
+        const buckets = Array.from({ length: Math.ceil(positions / stepsPerBucket) }, (_, i) => {
+            const from = roundSliderValue(config.min + i * stepsPerBucket * config.step);
+            return { from, to: Math.min(config.max, roundSliderValue(from + (stepsPerBucket - 1) * config.step)), count: 0 };
+        });
+
+        answers.forEach(answer => {
+            if (answer.value === undefined) return;
+            const bucket = buckets[Math.floor(Math.round((answer.value - config.min) / config.step) / stepsPerBucket)];
+            if (bucket) bucket.count++;
+        });
+
+        return { correctValue: config.correctValue, unit: config.unit, buckets };
+    }
+
+    private static groupTypedAnswers(answers: Answer[], normalize: (text: string) => string, limit: number): TypedAnswerGroup[] {
+        const groups = new Map<string, TypedAnswerGroup>();
+        answers.forEach(answer => {
+            if (!answer.text) return;
+            const key = normalize(answer.text);
+            const group = groups.get(key);
+            if (group) {
+                group.count++;
+            } else {
+                groups.set(key, { text: answer.text.trim(), count: 1, correct: answer.correct });
+            }
+        });
 
+        return [...groups.values()]
+            .sort((a, b) => b.count - a.count)
+            .slice(0, limit);
+    }
+
+    private static rankPlayers(state: GameState, questions: Question[]): LeaderboardEntry[] {
+        // While a question is open, not having answered it yet doesn't break a streak
+        const untilIndex = state.status === 'SHOWING_QUESTION' ? state.currentQuestionIndex : state.currentQuestionIndex + 1;
         return Object.values(state.players)
             .sort((a, b) => b.score - a.score)
-            .slice(0, 10);
+            .slice(0, 10)
+            .map(({ id, nickname, score, speedBonus, streakBonus, team }) => ({
+                id,
+                nickname,
+                score,
+                speedBonus,
+                streakBonus,
+                streak: currentStreak(state.streaks[id], questions, untilIndex),
+                team
+            }));
     }
 
-    static async endGame(joinCode: string): Promise<void> {
+    // Player and team rankings together, from one read of the session
+    static async getStandings(joinCode: string): Promise<Standings> {
         const state = await this.getSession(joinCode);
-        if (!state) return;
+        if (!state) return { leaderboard: [], teamLeaderboard: null };
 
-        state.status = 'ENDED';
-        await redis.set(`session:${joinCode}`, JSON.stringify(state));
+        // Not through getQuestions once the game is over, which would cache them again
+        const questions = state.status === 'ENDED'
+            ? await GameStore.getQuestions(joinCode) ?? []
+            : await this.getQuestions(joinCode, state.sessionId);
+        return {
+            leaderboard: this.rankPlayers(state, questions),
+            teamLeaderboard: this.rankTeams(state)
+        };
+    }
 
-        await prisma.session.update({
-            where: { joinCode },
-            data: { status: 'ENDED', endedAt: new Date() }
+    // Null for games without teams
+    private static rankTeams(state: GameState): TeamLeaderboardEntry[] | null {
+        if (!state.teams) return null;
+        const { names, scoring } = state.teams;
+
+        const totals = names.map(() => ({ score: 0, members: 0 }));
+        Object.values(state.players).forEach(player => {
+            if (player.team === null || !totals[player.team]) return;
+            totals[player.team].score += player.score;
+            totals[player.team].members++;
         });
+
+        return totals
+            .map(({ score, members }, team) => ({
+                team,
+                name: names[team],
+                score: scoring === 'AVERAGE' ? Math.round(members > 0 ? score / members : 0) : score,
+                members
+            }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    static async endGame(joinCode: string): Promise<void> {
+        const meta = await GameStore.getMeta(joinCode);
+        if (!meta) return;
+
+        const ended = await GameStore.compareAndSet(joinCode, {}, { status: 'ENDED' });
+        if (!ended) return;
+
+        if (meta.status === 'SHOWING_QUESTION') {
+            await this.cancelQuestionClose(joinCode, meta.currentQuestionIndex);
+        }
+
+        await this.saveFinalResults(joinCode, meta.sessionId);
+    }
+
+    // Writes the final standings so results outlive the Redis state
+    // The live game's copy is the one that counts: final scores overwrite the running ones, and
+    // answers whose own write failed are written now
+    private static async saveFinalResults(joinCode: string, sessionId: string): Promise<void> {
+        this.questionCache.delete(sessionId);
+
+        const [players, questions] = await Promise.all([
+            GameStore.getPlayers(joinCode),
+            GameStore.getQuestions(joinCode)
+        ]);
+        const ranked = Object.values(players).sort((a, b) => b.score - a.score);
+        const answers = await Promise.all((questions ?? []).map(async (question, questionIndex) =>
+            Object.values(await GameStore.getAnswers(joinCode, questionIndex))
+                .filter(answer => players[answer.playerId])
+                .map(answer => answerRow(sessionId, questionIndex, question, answer))
+        ));
+
+        await prisma.$transaction([
+            ...ranked.map((player, index) => prisma.sessionPlayer.upsert({
+                where: { id: player.id },
+                create: { id: player.id, sessionId, nickname: player.nickname, score: player.score, rank: index + 1 },
+                update: { score: player.score, rank: index + 1 }
+            })),
+            prisma.sessionAnswer.createMany({ data: answers.flat(), skipDuplicates: true }),
+            prisma.session.update({
+                where: { id: sessionId },
+                data: { status: 'ENDED', endedAt: new Date() }
+            })
+        ]);
+    }
+
+    // Reporting writes must never break the live game, so failures are only logged here;
+    // saveFinalResults writes what they lost once the game ends
+    private static async persist(description: string, work: Promise<unknown>): Promise<void> {
+        try {
+            await work;
+        } catch (e) {
+            console.error(`Failed to persist ${description}`, e);
+        }
     }
 }
@@ -0,0 +1,579 @@
+import { redis } from './redis';
+import type { AnswerResponse, ScoreBreakdown } from './grading';
+import type { PointsMode, QuestionConfig, QuestionType } from './quiz-schema';
+import type { TeamSettings } from './socket-protocol';
+import { nicknameKey } from './nicknames';
+
+// Redis layout for a live game. Each concern gets its own key so concurrent
+// updates never rewrite each other's data:
+//   session:{code}                 hash  - session meta (status, current question, timing)
+//   session:{code}:players         hash  - playerId -> JSON player record
+//   session:{code}:scores          hash  - playerId -> score (HINCRBY)
+//   session:{code}:bonuses         hash  - playerId:speed / playerId:streak -> bonus points within the score (HINCRBY)
+//   session:{code}:answers:{index} hash  - playerId -> JSON answer (HSETNX, first answer wins)
+//   session:{code}:streaks         hash  - playerId -> JSON streak, written with the answer that changed it
+//   session:{code}:teams           hash  - playerId -> team index, in team games only
+//   session:{code}:progress        hash  - playerId -> JSON progress, in assignments only
+//   session:{code}:nicknames       hash  - lowercased nickname -> playerId, so no two players share one
+//   session:{code}:bans            set   - device ids the host banned from the game
+//   session:{code}:questions       string - JSON copy of the quiz questions taken at creation
+//
+// Every key expires after GAME_IDLE_TTL_SECONDS without activity; each successful
+// write pushes the expiry of the whole session forward. Assignments are kept at
+// least that long past their closing time.
+
+export type GameStatus = 'WAITING' | 'ACTIVE' | 'SHOWING_QUESTION' | 'SHOWING_RESULTS' | 'ENDED';
+
+// Live games move on when the host says so; in an assignment every player goes at their own pace
+export type SessionMode = 'LIVE' | 'ASSIGNMENT';
+
+export interface Player {
+    id: string;
+    nickname: string;
+    score: number;
+    speedBonus: number; // points the score got for answering fast
+    streakBonus: number; // and for answering correctly in a row
+    team: number | null; // null outside team games
+    token: string; // resume credential kept by the player's device
+    deviceId?: string; // lets a ban keep the device out
+    nicknameKey?: string; // the nickname asked for, before any number was added; a ban keeps it out too
+}
+
+export interface Question {
+    id: string;
+    type: QuestionType;
+    text: string;
+    options: string[];
+    correctOptionIndex: number;
+    config: QuestionConfig | null; // type-specific settings, e.g. all correct options of a multi-select
+    imageId: string | null;
+    optionImageIds: string[]; // empty, or one upload id per option with "" for none
+    showImagesToPlayers: boolean;
+    pointsMode: PointsMode;
+    speedBonus: boolean;
+    timeLimit: number;
+    order: number;
+}
+
+// The player's response is kept as sent, alongside how it was graded
+export interface Answer extends AnswerResponse {
+    playerId: string;
+    responseTimeMs: number;
+    correct: boolean;
+    points: number;
+    breakdown: ScoreBreakdown;
+    streak: number; // correct answers in a row, including this one
+    distance?: number; // slider answers only
+}
+
+// Where a player is in an assignment; the question stays open for answers until the deadline
+export interface Progress {
+    questionIndex: number; // the question count once the player is through them all
+    startTime: number;
+    deadline: number; // epoch ms after which answers are rejected
+}
+
+// Consecutive correct answers, as of the last scored question the player answered
+export interface Streak {
+    count: number;
+    questionIndex: number;
+}
+
+export interface SessionMeta {
+    sessionId: string;
+    quizId: string;
+    hostId: string;
+    hostToken: string; // credential the host socket must present for control events
+    status: GameStatus;
+    mode: SessionMode;
+    currentQuestionIndex: number; // live games only; assignment players each have their own
+    questionStartTime: number | null;
+    questionDeadline: number | null; // epoch ms after which answers are rejected
+    startTime: number | null;
+    teams: TeamSettings | null; // null for a game without teams
+    opensAt: number | null; // assignments only, epoch ms
+    closesAt: number | null;
+}
+
+export interface GameState extends SessionMeta {
+    players: Record<string, Player>;
+    answers: Record<string, Answer>; // answers for current question
+    streaks: Record<string, Streak>;
+}
+
+// Long enough for a slow lobby or a long break between questions
+export const GAME_IDLE_TTL_SECONDS = 2 * 60 * 60;
+
+export type AddPlayerResult = 'OK' | 'NOT_FOUND' | 'STARTED' | 'NOT_OPEN' | 'CLOSED' | 'BANNED';
+
+export type SetTeamResult = 'OK' | 'NOT_FOUND' | 'STARTED';
+
+export type AdvanceProgressResult = 'OK' | 'NOT_FOUND' | 'CLOSED' | 'CHANGED';
+
+export type RemovePlayerResult =
+    | { status: 'OK'; answerCount: number; playerCount: number } // answers to the current question
+    | { status: 'NOT_FOUND' };
+
+export type RecordAnswerResult =
+    | { status: 'OK'; answerCount: number; playerCount: number }
+    | { status: 'NOT_FOUND' | 'NOT_JOINED' | 'CLOSED' | 'LATE' | 'ALREADY_ANSWERED' };
+
+const metaKey = (joinCode: string) => `session:${joinCode}`;
+const playersKey = (joinCode: string) => `session:${joinCode}:players`;
+const scoresKey = (joinCode: string) => `session:${joinCode}:scores`;
+const answersKey = (joinCode: string, questionIndex: number) => `session:${joinCode}:answers:${questionIndex}`;
+const questionsKey = (joinCode: string) => `session:${joinCode}:questions`;
+const streaksKey = (joinCode: string) => `session:${joinCode}:streaks`;
+const teamsKey = (joinCode: string) => `session:${joinCode}:teams`;
+const progressKey = (joinCode: string) => `session:${joinCode}:progress`;
+const nicknamesKey = (joinCode: string) => `session:${joinCode}:nicknames`;
+const bansKey = (joinCode: string) => `session:${joinCode}:bans`;
+const bonusesKey = (joinCode: string) => `session:${joinCode}:bonuses`;
+
+// Deadlines of the open live questions across all games, scored by time, so whichever
+// instance is around can close a question once its deadline passes
+export const DEADLINES_KEY = 'sessions:deadlines';
+const deadlineMember = (joinCode: string, questionIndex: number) => `${joinCode}:${questionIndex}`;
+
+// Every key of a game except the per-question answers, in the order the scripts expect them
+const sessionKeys = (joinCode: string) => [
+    metaKey(joinCode), playersKey(joinCode), scoresKey(joinCode), questionsKey(joinCode), streaksKey(joinCode),
+    teamsKey(joinCode), progressKey(joinCode), nicknamesKey(joinCode), bansKey(joinCode), bonusesKey(joinCode)
+];
+
+// Pushes the expiry of every key the script was given forward, for an assignment
+// counting from its closing time if that is later
+const REFRESH_TTL = `
+local function refresh(ttl)
+    local closesAt = tonumber(redis.call('HGET', KEYS[1], 'closesAt'))
+    if closesAt then
+        local remaining = math.ceil(closesAt / 1000 - tonumber(redis.call('TIME')[1]))
+        if remaining > 0 then ttl = ttl + remaining end
+    end
+    for _, key in ipairs(KEYS) do redis.call('EXPIRE', key, ttl) end
+end
+`;
+
+// Answer keys are per question, so their names are derived from the meta: up to the
+// current question, or for an assignment, where every question was open, all of them
+const LAST_ANSWERED_QUESTION = `
+local function lastAnsweredQuestion()
+    local meta = redis.call('HMGET', KEYS[1], 'currentQuestionIndex', 'mode')
+    if meta[2] == 'ASSIGNMENT' then return #cjson.decode(redis.call('GET', KEYS[4]) or '[]') - 1 end
+    return tonumber(meta[1]) or -1
+end
+`;
+
+// Claims the join code unless a live game holds it. An ended game's keys are
+// cleared first so its players and answers can't leak into the new one.
+const CREATE_SCRIPT = REFRESH_TTL + LAST_ANSWERED_QUESTION + `
+local status = redis.call('HGET', KEYS[1], 'status')
+if status and status ~= 'ENDED' then return 0 end
+if status then
+    for i = 0, lastAnsweredQuestion() do
+        redis.call('DEL', KEYS[1] .. ':answers:' .. i)
+    end
+end
+redis.call('DEL', unpack(KEYS))
+redis.call('SET', KEYS[4], ARGV[2])
+redis.call('HSET', KEYS[1], unpack(ARGV, 3))
+refresh(ARGV[1])
+return 1
+`;
+
+// Only adds the player while the lobby is open, so a join can't race past start_game;
+// assignments take players any time between their opening and closing.
+// A nickname that is taken gets the first free number after it, e.g. "Sam 2".
+// In team games the player goes to the smallest team, the first of them on a tie.
+const ADD_PLAYER_SCRIPT = REFRESH_TTL + `
+local meta = redis.call('HMGET', KEYS[1], 'status', 'teams', 'mode', 'opensAt', 'closesAt')
+if not meta[1] then return 'NOT_FOUND' end
+if meta[3] == 'ASSIGNMENT' then
+    if meta[1] ~= 'ACTIVE' or tonumber(ARGV[4]) >= tonumber(meta[5]) then return 'CLOSED' end
+    if tonumber(ARGV[4]) < tonumber(meta[4]) then return 'NOT_OPEN' end
+elseif meta[1] ~= 'WAITING' then
+    return 'STARTED'
+end
+if redis.call('SISMEMBER', KEYS[9], 'nickname:' .. ARGV[5]) == 1 then return 'BANNED' end
+if ARGV[6] ~= '' and redis.call('SISMEMBER', KEYS[9], 'device:' .. ARGV[6]) == 1 then return 'BANNED' end
+local player = cjson.decode(ARGV[2])
+local nickname, key, n = player.nickname, ARGV[5], 1
+while redis.call('HSETNX', KEYS[8], key, ARGV[1]) == 0 do
+    n = n + 1
+    nickname, key = player.nickname .. ' ' .. n, ARGV[5] .. ' ' .. n
+end
+player.nickname = nickname
+redis.call('HSET', KEYS[2], ARGV[1], cjson.encode(player))
+redis.call('HSETNX', KEYS[3], ARGV[1], 0)
+if meta[2] and meta[2] ~= '' then
+    local sizes = {}
+    for i = 1, #cjson.decode(meta[2]).names do sizes[i] = 0 end
+    for _, team in ipairs(redis.call('HVALS', KEYS[6])) do
+        local index = tonumber(team) + 1
+        sizes[index] = sizes[index] + 1
+    end
+    local smallest = 1
+    for i = 2, #sizes do
+        if sizes[i] < sizes[smallest] then smallest = i end
+    end
+    redis.call('HSET', KEYS[6], ARGV[1], smallest - 1)
+end
+refresh(ARGV[3])
+return 'OK'
+`;
+
+// Moves a player to another team while the lobby is still open
+const SET_TEAM_SCRIPT = REFRESH_TTL + `
+local status = redis.call('HGET', KEYS[1], 'status')
+if not status then return 'NOT_FOUND' end
+if status ~= 'WAITING' then return 'STARTED' end
+if redis.call('HEXISTS', KEYS[2], ARGV[1]) == 0 then return 'NOT_FOUND' end
+redis.call('HSET', KEYS[6], ARGV[1], ARGV[2])
+refresh(ARGV[3])
+return 'OK'
+`;
+
+// Validates the question is still open, stores the first answer per player and adds the points.
+// The open question is the game's current one, or in an assignment the one the player is on.
+// The streak is only written when given, since unscored questions leave it as it was.
+// Removed players still hold their socket for a moment, so the player must still be in the game.
+const RECORD_ANSWER_SCRIPT = REFRESH_TTL + `
+local meta = redis.call('HMGET', KEYS[1], 'status', 'currentQuestionIndex', 'questionDeadline', 'mode')
+if not meta[1] then return {'NOT_FOUND'} end
+local questionIndex, deadline = tonumber(meta[2]), tonumber(meta[3])
+if meta[4] == 'ASSIGNMENT' then
+    local progress = redis.call('HGET', KEYS[7], ARGV[2])
+    if meta[1] ~= 'ACTIVE' or not progress then return {'CLOSED'} end
+    progress = cjson.decode(progress)
+    questionIndex, deadline = progress.questionIndex, progress.deadline
+elseif meta[1] ~= 'SHOWING_QUESTION' then
+    return {'CLOSED'}
+end
+if questionIndex ~= tonumber(ARGV[1]) then return {'CLOSED'} end
+if deadline and tonumber(ARGV[5]) > deadline + tonumber(ARGV[6]) then return {'LATE'} end
+if redis.call('HEXISTS', KEYS[2], ARGV[2]) == 0 then return {'NOT_JOINED'} end
+if redis.call('HSETNX', KEYS[11], ARGV[2], ARGV[3]) == 0 then return {'ALREADY_ANSWERED'} end
+redis.call('HINCRBY', KEYS[3], ARGV[2], ARGV[4])
+redis.call('HINCRBY', KEYS[10], ARGV[2] .. ':speed', ARGV[9])
+redis.call('HINCRBY', KEYS[10], ARGV[2] .. ':streak', ARGV[10])
+if ARGV[8] ~= '' then redis.call('HSET', KEYS[5], ARGV[2], ARGV[8]) end
+refresh(ARGV[7])
+return {'OK', redis.call('HLEN', KEYS[11]), redis.call('HLEN', KEYS[2])}
+`;
+
+// Takes a player out of the game along with their answers, so answer counts and results
+// only cover the players still in it, and frees their nickname. A ban also keeps their
+// nickname and device from joining again.
+const REMOVE_PLAYER_SCRIPT = REFRESH_TTL + LAST_ANSWERED_QUESTION + `
+if redis.call('EXISTS', KEYS[1]) == 0 then return {'NOT_FOUND'} end
+local json = redis.call('HGET', KEYS[2], ARGV[1])
+if not json then return {'NOT_FOUND'} end
+local player = cjson.decode(json)
+local nicknames = redis.call('HGETALL', KEYS[8])
+for i = 1, #nicknames, 2 do
+    if nicknames[i + 1] == ARGV[1] then
+        redis.call('HDEL', KEYS[8], nicknames[i])
+        if type(player.nicknameKey) ~= 'string' then player.nicknameKey = nicknames[i] end
+    end
+end
+if ARGV[2] == '1' then
+    if type(player.nicknameKey) == 'string' then redis.call('SADD', KEYS[9], 'nickname:' .. player.nicknameKey) end
+    if type(player.deviceId) == 'string' then redis.call('SADD', KEYS[9], 'device:' .. player.deviceId) end
+end
+for i = 0, lastAnsweredQuestion() do
+    redis.call('HDEL', KEYS[1] .. ':answers:' .. i, ARGV[1])
+end
+for _, key in ipairs({KEYS[2], KEYS[3], KEYS[5], KEYS[6], KEYS[7]}) do
+    redis.call('HDEL', key, ARGV[1])
+end
+redis.call('HDEL', KEYS[10], ARGV[1] .. ':speed', ARGV[1] .. ':streak')
+refresh(ARGV[3])
+local current = redis.call('HGET', KEYS[1], 'currentQuestionIndex')
+return {'OK', redis.call('HLEN', KEYS[1] .. ':answers:' .. current), redis.call('HLEN', KEYS[2])}
+`;
+
+// Moves an assignment player on from the question they were on, so two requests can't both advance
+const ADVANCE_PROGRESS_SCRIPT = REFRESH_TTL + `
+local status = redis.call('HGET', KEYS[1], 'status')
+if not status then return 'NOT_FOUND' end
+if status ~= 'ACTIVE' then return 'CLOSED' end
+if redis.call('HEXISTS', KEYS[2], ARGV[1]) == 0 then return 'NOT_FOUND' end
+local current = redis.call('HGET', KEYS[7], ARGV[1])
+local currentIndex = current and cjson.decode(current).questionIndex or -1
+if currentIndex ~= tonumber(ARGV[2]) then return 'CHANGED' end
+redis.call('HSET', KEYS[7], ARGV[1], ARGV[3])
+refresh(ARGV[4])
+return 'OK'
+`;
+
+// Applies updates only if every expected field still has the value the caller read
+const COMPARE_AND_SET_SCRIPT = REFRESH_TTL + `
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+local expectedCount = tonumber(ARGV[2])
+for i = 0, expectedCount - 1 do
+    local field = ARGV[3 + i * 2]
+    local expected = ARGV[4 + i * 2]
+    if redis.call('HGET', KEYS[1], field) ~= expected then return 0 end
+end
+local first = 3 + expectedCount * 2
+if #ARGV >= first then
+    redis.call('HSET', KEYS[1], unpack(ARGV, first))
+end
+refresh(ARGV[1])
+return 1
+`;
+
+// Takes the deadlines that have passed off the schedule, so each goes to exactly one caller
+const CLAIM_DEADLINES_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+if #due > 0 then
+    redis.call('ZREM', KEYS[1], unpack(due))
+end
+return due
+`;
+
+function serializeMeta(meta: Partial<SessionMeta>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    Object.entries(meta).forEach(([key, value]) => {
+        if (value === null || value === undefined) {
+            fields[key] = '';
+        } else {
+            fields[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        }
+    });
+    return fields;
+}
+
+function parseNullableNumber(value: string | undefined): number | null {
+    return value ? Number(value) : null;
+}
+
+function parseMeta(fields: Record<string, string>): SessionMeta {
+    return {
+        sessionId: fields.sessionId,
+        quizId: fields.quizId,
+        hostId: fields.hostId,
+        hostToken: fields.hostToken,
+        status: fields.status as GameStatus,
+        currentQuestionIndex: Number(fields.currentQuestionIndex),
+        questionStartTime: parseNullableNumber(fields.questionStartTime),
+        questionDeadline: parseNullableNumber(fields.questionDeadline),
+        startTime: parseNullableNumber(fields.startTime),
+        mode: (fields.mode || 'LIVE') as SessionMode,
+        teams: fields.teams ? JSON.parse(fields.teams) : null,
+        opensAt: parseNullableNumber(fields.opensAt),
+        closesAt: parseNullableNumber(fields.closesAt)
+    };
+}
+
+export class GameStore {
+
+    // Every instance of the app must use the same schedule; tests point this at their own key
+    static deadlinesKey = DEADLINES_KEY;
+
+    // Returns false when the join code belongs to a game that hasn't ended
+    static async create(joinCode: string, meta: SessionMeta, questions: Question[]): Promise<boolean> {
+        const result = await redis.eval(CREATE_SCRIPT, {
+            keys: sessionKeys(joinCode),
+            arguments: [
+                String(GAME_IDLE_TTL_SECONDS),
+                JSON.stringify(questions),
+                ...Object.entries(serializeMeta(meta)).flat()
+            ]
+        });
+        return Number(result) === 1;
+    }
+
+    // Frees a join code whose game could not be set up
+    static async remove(joinCode: string): Promise<void> {
+        await redis.del(sessionKeys(joinCode));
+    }
+
+    static async getMeta(joinCode: string): Promise<SessionMeta | null> {
+        const fields = await redis.hGetAll(metaKey(joinCode));
+        if (!fields.status) return null;
+        return parseMeta(fields);
+    }
+
+    // The questions as they were when the game was created; later quiz edits don't affect them
+    static async getQuestions(joinCode: string): Promise<Question[] | null> {
+        const json = await redis.get(questionsKey(joinCode));
+        return json ? JSON.parse(json) : null;
+    }
+
+    static async getPlayers(joinCode: string): Promise<Record<string, Player>> {
+        const [records, scores, teams, bonuses] = await Promise.all([
+            redis.hGetAll(playersKey(joinCode)),
+            redis.hGetAll(scoresKey(joinCode)),
+            redis.hGetAll(teamsKey(joinCode)),
+            redis.hGetAll(bonusesKey(joinCode))
+        ]);
+
+        const players: Record<string, Player> = {};
+        Object.entries(records).forEach(([id, json]) => {
+            players[id] = {
+                ...JSON.parse(json),
+                score: Number(scores[id] || 0),
+                speedBonus: Number(bonuses[`${id}:speed`] || 0),
+                streakBonus: Number(bonuses[`${id}:streak`] || 0),
+                team: teams[id] !== undefined ? Number(teams[id]) : null
+            };
+        });
+        return players;
+    }
+
+    static async getAnswers(joinCode: string, questionIndex: number): Promise<Record<string, Answer>> {
+        const records = await redis.hGetAll(answersKey(joinCode, questionIndex));
+        const answers: Record<string, Answer> = {};
+        Object.entries(records).forEach(([playerId, json]) => {
+            answers[playerId] = JSON.parse(json);
+        });
+        return answers;
+    }
+
+    static async getStreaks(joinCode: string): Promise<Record<string, Streak>> {
+        const records = await redis.hGetAll(streaksKey(joinCode));
+        const streaks: Record<string, Streak> = {};
+        Object.entries(records).forEach(([playerId, json]) => {
+            streaks[playerId] = JSON.parse(json);
+        });
+        return streaks;
+    }
+
+    static async getStreak(joinCode: string, playerId: string): Promise<Streak | null> {
+        const json = await redis.hGet(streaksKey(joinCode), playerId);
+        return json ? JSON.parse(json) : null;
+    }
+
+    static async getAnswer(joinCode: string, questionIndex: number, playerId: string): Promise<Answer | null> {
+        const json = await redis.hGet(answersKey(joinCode, questionIndex), playerId);
+        return json ? JSON.parse(json) : null;
+    }
+
+    // Null until an assignment player has asked for their first question
+    static async getProgress(joinCode: string, playerId: string): Promise<Progress | null> {
+        const json = await redis.hGet(progressKey(joinCode), playerId);
+        return json ? JSON.parse(json) : null;
+    }
+
+    // Assembles the full game state; each part is individually consistent
+    static async load(joinCode: string): Promise<GameState | null> {
+        const meta = await this.getMeta(joinCode);
+        if (!meta) return null;
+
+        const [players, answers, streaks] = await Promise.all([
+            this.getPlayers(joinCode),
+            meta.currentQuestionIndex >= 0 ? this.getAnswers(joinCode, meta.currentQuestionIndex) : {},
+            this.getStreaks(joinCode)
+        ]);
+
+        return { ...meta, players, answers, streaks };
+    }
+
+    static async addPlayer(
+        joinCode: string, player: Omit<Player, 'score' | 'speedBonus' | 'streakBonus' | 'team' | 'nicknameKey'>, now = Date.now()
+    ): Promise<AddPlayerResult> {
+        const key = nicknameKey(player.nickname);
+        const result = await redis.eval(ADD_PLAYER_SCRIPT, {
+            keys: sessionKeys(joinCode),
+            arguments: [
+                player.id,
+                JSON.stringify({ ...player, nicknameKey: key }),
+                String(GAME_IDLE_TTL_SECONDS),
+                String(now),
+                key,
+                player.deviceId ?? ''
+            ]
+        });
+        return String(result) as AddPlayerResult;
+    }
+
+    static async removePlayer(joinCode: string, playerId: string, ban: boolean): Promise<RemovePlayerResult> {
+        const reply = await redis.eval(REMOVE_PLAYER_SCRIPT, {
+            keys: sessionKeys(joinCode),
+            arguments: [playerId, ban ? '1' : '', String(GAME_IDLE_TTL_SECONDS)]
+        }) as [string, number?, number?];
+
+        if (reply[0] === 'OK') {
+            return { status: 'OK', answerCount: Number(reply[1]), playerCount: Number(reply[2]) };
+        }
+        return { status: 'NOT_FOUND' };
+    }
+
+    static async setTeam(joinCode: string, playerId: string, team: number): Promise<SetTeamResult> {
+        const result = await redis.eval(SET_TEAM_SCRIPT, {
+            keys: sessionKeys(joinCode),
+            arguments: [playerId, String(team), String(GAME_IDLE_TTL_SECONDS)]
+        });
+        return String(result) as SetTeamResult;
+    }
+
+    // fromIndex is the question the caller saw the player on, -1 before their first
+    static async advanceProgress(
+        joinCode: string, playerId: string, fromIndex: number, progress: Progress
+    ): Promise<AdvanceProgressResult> {
+        const result = await redis.eval(ADVANCE_PROGRESS_SCRIPT, {
+            keys: sessionKeys(joinCode),
+            arguments: [playerId, String(fromIndex), JSON.stringify(progress), String(GAME_IDLE_TTL_SECONDS)]
+        });
+        return String(result) as AdvanceProgressResult;
+    }
+
+    static async recordAnswer(
+        joinCode: string, questionIndex: number, answer: Answer, streak: Streak | null, now: number, graceMs: number
+    ): Promise<RecordAnswerResult> {
+        const reply = await redis.eval(RECORD_ANSWER_SCRIPT, {
+            keys: [...sessionKeys(joinCode), answersKey(joinCode, questionIndex)],
+            arguments: [
+                String(questionIndex),
+                answer.playerId,
+                JSON.stringify(answer),
+                String(answer.points),
+                String(now),
+                String(graceMs),
+                String(GAME_IDLE_TTL_SECONDS),
+                streak ? JSON.stringify(streak) : '',
+                String(answer.breakdown.speedBonus),
+                String(answer.breakdown.streakBonus)
+            ]
+        }) as [string, number?, number?];
+
+        if (reply[0] === 'OK') {
+            return { status: 'OK', answerCount: Number(reply[1]), playerCount: Number(reply[2]) };
+        }
+        return { status: reply[0] as 'NOT_FOUND' | 'NOT_JOINED' | 'CLOSED' | 'LATE' | 'ALREADY_ANSWERED' };
+    }
+
+    // Optimistic update of the session meta: returns false if another caller changed it first
+    static async compareAndSet(joinCode: string, expected: Partial<SessionMeta>, updates: Partial<SessionMeta>): Promise<boolean> {
+        const expectedFields = Object.entries(serializeMeta(expected)).flat();
+        const updateFields = Object.entries(serializeMeta(updates)).flat();
+
+        const result = await redis.eval(COMPARE_AND_SET_SCRIPT, {
+            keys: sessionKeys(joinCode),
+            arguments: [String(GAME_IDLE_TTL_SECONDS), String(expectedFields.length / 2), ...expectedFields, ...updateFields]
+        });
+        return Number(result) === 1;
+    }
+
+    static async scheduleDeadline(joinCode: string, questionIndex: number, deadline: number): Promise<void> {
+        await redis.zAdd(this.deadlinesKey, { score: deadline, value: deadlineMember(joinCode, questionIndex) });
+    }
+
+    // Takes a question's deadline off the schedule: true only for the one caller that removed it
+    static async claimDeadline(joinCode: string, questionIndex: number): Promise<boolean> {
+        return (await redis.zRem(this.deadlinesKey, deadlineMember(joinCode, questionIndex))) === 1;
+    }
+
+    // Claims every deadline that passed before the given time, oldest first
+    static async claimDueDeadlines(before: number, limit = 100): Promise<{ joinCode: string; questionIndex: number }[]> {
+        const due = await redis.eval(CLAIM_DEADLINES_SCRIPT, {
+            keys: [this.deadlinesKey],
+            arguments: [String(before), String(limit)]
+        }) as string[];
+        return due.map(member => {
+            const [joinCode, questionIndex] = member.split(':');
+            return { joinCode, questionIndex: Number(questionIndex) };
+        });
+    }
+}
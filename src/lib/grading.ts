@@ -0,0 +1,208 @@
+import type { Question } from './game-store';
+import { isOnSliderStep, isScored, roundSliderValue } from './quiz-schema';
+import type {
+    MultiSelectConfig, OrderingConfig, PointsMode, SliderConfig, SliderRange, TypeInConfig, UnscoredConfig
+} from './quiz-schema';
+
+// What a player sends for a question; which field is used depends on the question type
+export interface AnswerResponse {
+    optionIndex?: number;
+    optionIndexes?: number[];
+    text?: string;
+    value?: number;
+    order?: number[]; // option indexes in the order the player put them
+}
+
+export interface Grade {
+    correct: boolean;
+    credit: number; // share of the full points earned, 0 to 1
+    distance?: number; // slider answers: how far from the correct value
+}
+
+// How the points for one answer add up
+export interface ScoreBreakdown {
+    base: number;
+    speedBonus: number;
+    streakBonus: number;
+    total: number;
+}
+
+const BASE_POINTS = 1000;
+const MAX_SPEED_BONUS = 500;
+const STREAK_BONUS = 100; // per correct answer in a row after the first
+const MAX_STREAK_BONUS = 500;
+
+const POINTS_MULTIPLIERS: Record<PointsMode, number> = {
+    STANDARD: 1,
+    DOUBLE: 2,
+    NONE: 0
+};
+
+function gradeSingleOption(question: Question, response: AnswerResponse): Grade {
+    const { optionIndex } = response;
+    if (optionIndex === undefined || optionIndex >= question.options.length) throw new Error("Invalid option");
+
+    const correct = optionIndex === question.correctOptionIndex;
+    return { correct, credit: correct ? 1 : 0 };
+}
+
+// Partial credit gives a share per correct pick and takes one back per wrong pick
+function gradeMultiSelect(question: Question, response: AnswerResponse): Grade {
+    const picks = response.optionIndexes;
+    if (!picks || picks.length === 0 || picks.some(index => index >= question.options.length)) {
+        throw new Error("Invalid option");
+    }
+
+    const { correctOptionIndexes, partialCredit } = question.config as MultiSelectConfig;
+    const chosen = new Set(picks);
+    const hits = correctOptionIndexes.filter(index => chosen.has(index)).length;
+    const misses = chosen.size - hits;
+    const correct = hits === correctOptionIndexes.length && misses === 0;
+
+    if (!partialCredit) return { correct, credit: correct ? 1 : 0 };
+    return { correct, credit: Math.max(0, (hits - misses) / correctOptionIndexes.length) };
+}
+
+// Brings a typed answer to the form it is compared and grouped in
+export function normalizeTypedAnswer(text: string, config: TypeInConfig): string {
+    let normalized = text.trim().replace(/\s+/g, ' ');
+    if (config.ignoreCase) normalized = normalized.toLocaleLowerCase();
+    if (config.ignoreAccents) normalized = normalized.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (config.ignoreWhitespace) normalized = normalized.replace(/ /g, '');
+    return normalized;
+}
+
+// Levenshtein distance, giving up once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        if (Math.min(...current) > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function requireText(response: AnswerResponse): string {
+    if (typeof response.text !== 'string' || !response.text.trim()) throw new Error("Answer is empty");
+    return response.text;
+}
+
+function gradeTypeIn(question: Question, response: AnswerResponse): Grade {
+    const text = requireText(response);
+    const config = question.config as TypeInConfig;
+    const answer = normalizeTypedAnswer(text, config);
+    const correct = config.acceptedAnswers.some(accepted => {
+        const expected = normalizeTypedAnswer(accepted, config);
+        // Short answers get fewer typos, so "cat" can't pass for "dog"
+        const allowed = Math.min(config.maxTypos, Math.floor(expected.length / 3));
+        return editDistance(answer, expected, allowed) <= allowed;
+    });
+    return { correct, credit: correct ? 1 : 0 };
+}
+
+function gradeSlider(question: Question, response: AnswerResponse): Grade {
+    const config = question.config as SliderConfig;
+    const { value } = response;
+    if (typeof value !== 'number' || value < config.min || value > config.max || !isOnSliderStep(value, config)) {
+        throw new Error("Invalid value");
+    }
+
+    const distance = roundSliderValue(Math.abs(value - config.correctValue));
+    let credit: number;
+    switch (config.scoring) {
+        case 'EXACT':
+            credit = distance === 0 ? 1 : 0;
+            break;
+        case 'TOLERANCE':
+            credit = distance <= config.tolerance ? 1 : 0;
+            break;
+        case 'DECAY':
+            credit = Math.max(0, 1 - distance / config.tolerance);
+            break;
+    }
+    return { correct: credit === 1, credit, distance };
+}
+
+function gradeOrdering(question: Question, response: AnswerResponse): Grade {
+    const { order } = response;
+    const itemCount = question.options.length;
+    if (!order || order.length !== itemCount || new Set(order).size !== itemCount || order.some(index => index >= itemCount)) {
+        throw new Error("Invalid order");
+    }
+
+    const { correctOrder, partialCredit } = question.config as OrderingConfig;
+    const placed = order.filter((index, position) => index === correctOrder[position]).length;
+    const correct = placed === itemCount;
+
+    if (!partialCredit) return { correct, credit: correct ? 1 : 0 };
+    return { correct, credit: placed / itemCount };
+}
+
+// Throws when the response doesn't fit the question, e.g. an option that doesn't exist
+export function gradeAnswer(question: Question, response: AnswerResponse): Grade {
+    switch (question.type) {
+        case 'MULTI_SELECT':
+            return gradeMultiSelect(question, response);
+        case 'TYPE_IN':
+            return gradeTypeIn(question, response);
+        case 'SLIDER':
+            return gradeSlider(question, response);
+        case 'ORDERING':
+            return gradeOrdering(question, response);
+        case 'POLL':
+            gradeSingleOption(question, response); // only to check the option exists
+            return { correct: false, credit: 0 };
+        case 'WORD_CLOUD':
+            requireText(response);
+            return { correct: false, credit: 0 };
+        default:
+            return gradeSingleOption(question, response);
+    }
+}
+
+function breakdown(base: number, speedBonus = 0, streakBonus = 0): ScoreBreakdown {
+    return { base, speedBonus, streakBonus, total: base + speedBonus + streakBonus };
+}
+
+// Base 1000 points plus up to 500 for speed, scaled by the credit earned, and a bonus for
+// each correct answer in a row; the question's points setting multiplies all of it.
+// Unscored questions give everyone who answers the same participation points.
+export function pointsFor(question: Question, grade: Grade, responseTimeMs: number, streak: number): ScoreBreakdown {
+    if (!isScored(question.type)) return breakdown((question.config as UnscoredConfig).participationPoints);
+
+    const multiplier = POINTS_MULTIPLIERS[question.pointsMode];
+    if (grade.credit <= 0 || multiplier === 0) return breakdown(0);
+
+    const timeBonus = question.speedBonus ? Math.max(0, 1 - (responseTimeMs / (question.timeLimit * 1000))) : 0;
+    const streakBonus = grade.correct ? Math.min((streak - 1) * STREAK_BONUS, MAX_STREAK_BONUS) : 0;
+    return breakdown(
+        Math.round(grade.credit * BASE_POINTS * multiplier),
+        Math.round(grade.credit * timeBonus * MAX_SPEED_BONUS * multiplier),
+        Math.max(0, streakBonus) * multiplier
+    );
+}
+
+export function correctOptionIndexes(question: Question): number[] {
+    if (question.type === 'MULTI_SELECT') return (question.config as MultiSelectConfig).correctOptionIndexes;
+    if (question.type === 'MCQ' || question.type === 'TRUE_FALSE') return [question.correctOptionIndex];
+    return [];
+}
+
+export function sliderRange(question: Pick<Question, 'type' | 'config'>): SliderRange | undefined {
+    if (question.type !== 'SLIDER') return undefined;
+    const { min, max, step, unit } = question.config as SliderConfig;
+    return { min, max, step, unit };
+}
+
+// The options a response picked, for answer distributions
+export function pickedOptions(response: AnswerResponse): number[] {
+    if (response.optionIndexes) return response.optionIndexes;
+    return response.optionIndex !== undefined ? [response.optionIndex] : [];
+}
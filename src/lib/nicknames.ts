@@ -0,0 +1,56 @@
+// Nickname rules for joining players. The blocklist is the built-in one below plus any
+// comma-separated words in NICKNAME_BLOCKLIST. Words are only caught whole, so names that
+// merely contain one, like "Matsushita" or "Penistone", still get in.
+
+// Also caught with a common ending, e.g. "fucking" or "whores"
+const BLOCKED_STEMS = [
+    'fuck', 'shit', 'bitch', 'cunt', 'pussy', 'asshole', 'bastard', 'slut', 'whore', 'wank', 'twat', 'porn',
+    'penis', 'vagina', 'nazi', 'hitler', 'nigger', 'nigga', 'faggot', 'retard'
+];
+
+// Only caught exactly, since an ending makes harmless words of them, e.g. "Cocker" or "Titan"
+const BLOCKED_WORDS = ['ass', 'fag', 'tit', 'tits', 'sex', 'cum', 'piss', 'dick', 'cock', 'rape', 'kkk'];
+
+// Common stand-ins for letters, e.g. "5h1t"
+const LOOKALIKES: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's', '!': 'i'
+};
+
+// Brings a nickname to the form duplicates are compared in, so "Sam" and "sam " clash
+export function nicknameKey(nickname: string): string {
+    return nickname.normalize('NFKC').trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+}
+
+function simplify(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[0134578@$!]/g, char => LOOKALIKES[char]);
+}
+
+const squeeze = (text: string) => text.replace(/(.)\1+/g, '$1'); // "fuuuck" -> "fuck"
+
+const ENDINGS = ['s', 'es', 'y', 'ed', 'er', 'ers', 'in', 'ing', 'ings'];
+
+// The word and what is left of it without each ending it has
+function stems(word: string): string[] {
+    return [word, ...ENDINGS.filter(ending => word.endsWith(ending)).map(ending => word.slice(0, -ending.length))];
+}
+
+const blockedStems = [...BLOCKED_STEMS, ...(process.env.NICKNAME_BLOCKLIST || '').split(',')]
+    .map(word => simplify(word).replace(/[^a-z]/g, ''))
+    .filter(Boolean)
+    .flatMap(word => [word, squeeze(word)]); // so squeezed nicknames still match, e.g. "ashole"
+
+export function isNicknameAllowed(nickname: string): boolean {
+    const words = simplify(nickname).split(/[^a-z]+/).filter(Boolean);
+    // Single letters are also checked run together, so spacing like "f u c k" doesn't get past
+    const spelled = words.filter(word => word.length === 1).join('');
+    const candidates = spelled.length > 1 ? [...words, spelled] : words;
+
+    return !candidates.some(word => [word, squeeze(word)].some(form =>
+        BLOCKED_WORDS.includes(form) ||
+        stems(form).some(stem => blockedStems.includes(stem))
+    ));
+}
@@ -0,0 +1,290 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { POINTS_MODES, QuizInput } from './quiz-schema';
+import { referencedUploads } from './uploads';
+
+type QuestionInput = QuizInput['questions'][number];
+
+// A question as a revision keeps it: what the editor saved, under the id it was saved with
+export type RevisionQuestion = Omit<QuestionInput, 'id'> & { id: string };
+
+export interface FieldChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+export interface QuestionChange {
+    id: string;
+    index: number; // in the newer revision
+    text: string;
+    fields: FieldChange[];
+}
+
+// What one revision changed compared to the one before it
+export interface RevisionDiff {
+    title: FieldChange | null;
+    added: { index: number; text: string }[];
+    removed: { index: number; text: string }[]; // indexes in the older revision
+    changed: QuestionChange[];
+    reordered: boolean;
+}
+
+export interface RevisionSummary {
+    id: string;
+    number: number;
+    title: string;
+    questionCount: number;
+    restoredFrom: number | null;
+    createdAt: Date;
+    sessionCount: number;
+    diff: RevisionDiff;
+}
+
+const POINTS_LABELS: Record<typeof POINTS_MODES[number], string> = { STANDARD: 'Standard', DOUBLE: 'Double', NONE: 'None' };
+
+// The fields compared between revisions, each with how it reads in the history panel
+const FIELDS: { label: string; value: (q: RevisionQuestion) => unknown; describe: (q: RevisionQuestion) => string }[] = [
+    { label: 'Question', value: q => q.text, describe: q => q.text },
+    { label: 'Type', value: q => q.type, describe: q => q.type },
+    { label: 'Options', value: q => q.options, describe: q => q.options.join(', ') || 'None' },
+    {
+        // Only single-answer types are graded on the index; the others keep their answer in the settings
+        label: 'Correct answer',
+        value: q => q.config === null ? q.correctOptionIndex : null,
+        describe: q => q.config === null ? q.options[q.correctOptionIndex] ?? 'None' : 'None'
+    },
+    { label: 'Settings', value: q => q.config, describe: q => q.config === null ? 'None' : JSON.stringify(q.config) },
+    { label: 'Time limit', value: q => q.timeLimit, describe: q => `${q.timeLimit}s` },
+    { label: 'Image', value: q => q.imageId, describe: q => q.imageId ? 'Image' : 'None' },
+    {
+        label: 'Option images',
+        value: q => q.optionImageIds,
+        describe: q => q.optionImageIds.length > 0 ? `${q.optionImageIds.filter(Boolean).length} images` : 'None'
+    },
+    { label: 'Images shown to players', value: q => q.showImagesToPlayers, describe: q => q.showImagesToPlayers ? 'Yes' : 'No' },
+    { label: 'Points', value: q => q.pointsMode, describe: q => POINTS_LABELS[q.pointsMode] },
+    { label: 'Speed bonus', value: q => q.speedBonus, describe: q => q.speedBonus ? 'On' : 'Off' }
+];
+
+// The database doesn't keep the key order of stored JSON, so settings are compared with sorted keys
+function sortedJson(value: unknown): string {
+    return JSON.stringify(value, (_, v) => v && typeof v === 'object' && !Array.isArray(v)
+        ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+        : v);
+}
+
+function fieldChanges(before: RevisionQuestion, after: RevisionQuestion): FieldChange[] {
+    return FIELDS.flatMap(({ label, value, describe }) => {
+        if (sortedJson(value(before)) === sortedJson(value(after))) return [];
+        const change = { field: label, before: describe(before), after: describe(after) };
+        // e.g. one image swapped for another
+        if (change.before === change.after) change.after += ' (replaced)';
+        return [change];
+    });
+}
+
+// Questions are matched by id, so a question that was edited shows up as changed, not as removed and added
+export function diffRevisions(
+    before: { title: string; questions: RevisionQuestion[] } | null,
+    after: { title: string; questions: RevisionQuestion[] }
+): RevisionDiff {
+    const previous = new Map((before?.questions ?? []).map((q, index) => [q.id, { q, index }]));
+    const current = new Set(after.questions.map(q => q.id));
+
+    const diff: RevisionDiff = {
+        title: before && before.title !== after.title ? { field: 'Title', before: before.title, after: after.title } : null,
+        added: [],
+        removed: (before?.questions ?? [])
+            .map((q, index) => ({ index, text: q.text, id: q.id }))
+            .filter(q => !current.has(q.id))
+            .map(({ index, text }) => ({ index, text })),
+        changed: [],
+        reordered: false
+    };
+
+    after.questions.forEach((q, index) => {
+        const old = previous.get(q.id);
+        if (!old) {
+            diff.added.push({ index, text: q.text });
+            return;
+        }
+        const fields = fieldChanges(old.q, q);
+        if (fields.length > 0) diff.changed.push({ id: q.id, index, text: q.text, fields });
+    });
+
+    // Whether the questions both revisions have come in a different order
+    const kept = after.questions.flatMap(q => previous.get(q.id)?.index ?? []);
+    diff.reordered = kept.some((index, i) => i > 0 && index < kept[i - 1]);
+
+    return diff;
+}
+
+function isUnchanged(diff: RevisionDiff): boolean {
+    return !diff.title && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && !diff.reordered;
+}
+
+interface DbQuestion {
+    id: string;
+    text: string;
+    type: string;
+    timeLimit: number;
+    options: string[];
+    correctOptionIndex: number;
+    config: Prisma.JsonValue;
+    imageId: string | null;
+    optionImageIds: string[];
+    showImagesToPlayers: boolean;
+    pointsMode: string;
+    speedBonus: boolean;
+}
+
+function toRevisionQuestion(question: DbQuestion): RevisionQuestion {
+    return {
+        id: question.id,
+        text: question.text,
+        type: question.type as RevisionQuestion['type'],
+        timeLimit: question.timeLimit,
+        options: question.options,
+        correctOptionIndex: question.correctOptionIndex,
+        config: question.config as RevisionQuestion['config'],
+        imageId: question.imageId,
+        optionImageIds: question.optionImageIds,
+        showImagesToPlayers: question.showImagesToPlayers,
+        pointsMode: question.pointsMode as RevisionQuestion['pointsMode'],
+        speedBonus: question.speedBonus
+    };
+}
+
+export function revisionQuestions(revision: { questions: Prisma.JsonValue }): RevisionQuestion[] {
+    return revision.questions as unknown as RevisionQuestion[];
+}
+
+async function createRevision(
+    tx: Prisma.TransactionClient, quizId: string, number: number, title: string, questions: RevisionQuestion[], restoredFrom: number | null
+) {
+    return tx.quizRevision.create({
+        data: {
+            quizId,
+            number,
+            title,
+            questions: questions as unknown as Prisma.InputJsonValue,
+            uploadIds: referencedUploads(questions),
+            restoredFrom
+        }
+    });
+}
+
+// Locks the quiz row for the rest of the transaction. Saves lock it exclusively so they run one at a
+// time and never pick the same revision number; readers lock it shared so no save lands between reads.
+export async function lockQuiz(tx: Prisma.TransactionClient, quizId: string, mode: 'SHARE' | 'UPDATE') {
+    await tx.$queryRaw`SELECT id FROM "Quiz" WHERE id = ${quizId} ${Prisma.raw(`FOR ${mode}`)}`;
+}
+
+// Quizzes saved before revisions existed get their current content as the first revision, whether
+// they are next saved or hosted. Two sessions starting at once share it rather than both adding one.
+export async function initialRevision(
+    tx: Prisma.TransactionClient, quiz: { id: string; title: string; questions: DbQuestion[] }
+) {
+    const questions = quiz.questions.map(toRevisionQuestion);
+    return tx.quizRevision.upsert({
+        where: { quizId_number: { quizId: quiz.id, number: 1 } },
+        create: {
+            quizId: quiz.id,
+            number: 1,
+            title: quiz.title,
+            questions: questions as unknown as Prisma.InputJsonValue,
+            uploadIds: referencedUploads(questions)
+        },
+        update: {}
+    });
+}
+
+// Writes new content over the quiz's questions and records it as the next revision. Questions sent
+// back with their id are updated in place; a restore may also bring back ids of removed questions.
+// Saving the same content as the latest revision adds no revision.
+export async function saveQuizContent(
+    tx: Prisma.TransactionClient,
+    quizId: string,
+    { title, questions }: QuizInput,
+    restoredFrom: number | null = null
+) {
+    await lockQuiz(tx, quizId, 'UPDATE');
+    const quiz = await tx.quiz.findUniqueOrThrow({
+        where: { id: quizId },
+        include: { questions: { orderBy: { order: 'asc' } } }
+    });
+    let latest = await tx.quizRevision.findFirst({ where: { quizId }, orderBy: { number: 'desc' } });
+
+    if (!latest && quiz.questions.length > 0) latest = await initialRevision(tx, quiz);
+
+    const existingIds = new Set(quiz.questions.map(q => q.id));
+    const restorableIds = new Set<string>();
+    if (restoredFrom !== null) {
+        const candidates = questions.map(q => q.id).filter((id): id is string => !!id && !existingIds.has(id));
+        const taken = await tx.question.findMany({ where: { id: { in: candidates } }, select: { id: true } });
+        const takenIds = new Set(taken.map(q => q.id));
+        candidates.filter(id => !takenIds.has(id)).forEach(id => restorableIds.add(id));
+    }
+
+    // Each id is used once at most, e.g. if the editor sent a question twice; the others get new ones
+    const usedIds = new Set<string>();
+    const plan = questions.map(({ id, ...fields }) => {
+        const keep = id !== undefined && !usedIds.has(id) && (existingIds.has(id) || restorableIds.has(id));
+        if (keep) usedIds.add(id);
+        return { id: keep ? id : undefined, fields };
+    });
+
+    await tx.question.deleteMany({ where: { quizId, id: { notIn: [...usedIds] } } });
+
+    const saved: RevisionQuestion[] = [];
+    for (const [order, { id, fields }] of plan.entries()) {
+        const data = { ...fields, config: fields.config ?? Prisma.DbNull, order };
+        if (id && existingIds.has(id)) {
+            await tx.question.update({ where: { id }, data });
+            saved.push({ ...fields, id });
+        } else {
+            const created = await tx.question.create({ data: { ...data, id, quizId }, select: { id: true } });
+            saved.push({ ...fields, id: created.id });
+        }
+    }
+
+    await tx.quiz.update({ where: { id: quizId }, data: { title } });
+
+    const previous = latest && { title: latest.title, questions: revisionQuestions(latest) };
+    if (!latest || !isUnchanged(diffRevisions(previous, { title, questions: saved }))) {
+        latest = await createRevision(tx, quizId, (latest?.number ?? 0) + 1, title, saved, restoredFrom);
+    }
+
+    const updated = await tx.quiz.findUniqueOrThrow({
+        where: { id: quizId },
+        include: { questions: { orderBy: { order: 'asc' } } }
+    });
+    return { ...updated, revision: { id: latest.id, number: latest.number } };
+}
+
+// The quiz's revisions, newest first, each with what it changed
+export async function listRevisions(quizId: string): Promise<RevisionSummary[]> {
+    const revisions = await prisma.quizRevision.findMany({
+        where: { quizId },
+        orderBy: { number: 'asc' },
+        include: { _count: { select: { sessions: true } } }
+    });
+
+    return revisions.map((revision, index) => {
+        const before = index > 0 ? revisions[index - 1] : null;
+        return {
+            id: revision.id,
+            number: revision.number,
+            title: revision.title,
+            questionCount: revisionQuestions(revision).length,
+            restoredFrom: revision.restoredFrom,
+            createdAt: revision.createdAt,
+            sessionCount: revision._count.sessions,
+            diff: diffRevisions(
+                before && { title: before.title, questions: revisionQuestions(before) },
+                { title: revision.title, questions: revisionQuestions(revision) }
+            )
+        };
+    }).reverse();
+}
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+
+// Shared by the quiz API routes and the editor pages, so it must stay free of server imports
+
+export const QUESTION_TYPES = ['MCQ', 'TRUE_FALSE', 'MULTI_SELECT', 'TYPE_IN', 'SLIDER', 'ORDERING', 'POLL', 'WORD_CLOUD'] as const;
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+// Types answered without picking from a list of options
+const FREE_RESPONSE_TYPES: readonly QuestionType[] = ['TYPE_IN', 'SLIDER', 'WORD_CLOUD'];
+
+export function hasOptions(type: QuestionType): boolean {
+    return !FREE_RESPONSE_TYPES.includes(type);
+}
+
+// Types graded on correctOptionIndex; the others keep their answer in config
+const SINGLE_ANSWER_TYPES: readonly QuestionType[] = ['MCQ', 'TRUE_FALSE'];
+
+// Opinion questions with no right answer; they give at most a flat participation bonus
+const UNSCORED_TYPES: readonly QuestionType[] = ['POLL', 'WORD_CLOUD'];
+
+export function isScored(type: QuestionType): boolean {
+    return !UNSCORED_TYPES.includes(type);
+}
+
+// Ordering items are shuffled per game, so only the fixed option grids can carry images
+export function hasOptionImages(type: QuestionType): boolean {
+    return hasOptions(type) && type !== 'ORDERING';
+}
+
+// Uploaded images are stored by id and served by the uploads route
+export function uploadUrl(uploadId: string): string {
+    return `/api/uploads/${uploadId}`;
+}
+
+// How much a question is worth: the usual points, twice as many, or none (e.g. a warm-up)
+export const POINTS_MODES = ['STANDARD', 'DOUBLE', 'NONE'] as const;
+export type PointsMode = typeof POINTS_MODES[number];
+
+// True/False questions always store these two options, in this order
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const QUIZ_LIMITS = {
+    titleLength: 120,
+    questionLength: 300,
+    optionLength: 100,
+    minOptions: 2,
+    maxOptions: 4, // the game screens have four answer colors
+    minOrderingItems: 3,
+    maxOrderingItems: 6,
+    minTimeLimit: 5,
+    maxTimeLimit: 240,
+    maxQuestions: 100,
+    maxAcceptedAnswers: 10,
+    typedAnswerLength: 100,
+    maxTypos: 3,
+    maxSliderSteps: 1000,
+    maxParticipationPoints: 500,
+    unitLength: 20
+};
+
+// How many options a question of this type takes; ordering questions call them items
+export function optionLimits(type: QuestionType): { min: number; max: number } {
+    if (!hasOptions(type)) return { min: 0, max: 0 };
+    if (type === 'ORDERING') return { min: QUIZ_LIMITS.minOrderingItems, max: QUIZ_LIMITS.maxOrderingItems };
+    return { min: QUIZ_LIMITS.minOptions, max: QUIZ_LIMITS.maxOptions };
+}
+
+function optionCountError({ type, options }: { type: QuestionType; options: string[] }): string | null {
+    const { min, max } = optionLimits(type);
+    const noun = type === 'ORDERING' ? 'items' : 'options';
+    if (max === 0 && options.length > 0) return 'This question type doesn\'t use options';
+    if (options.length < min) return `Add at least ${min} ${noun}`;
+    if (options.length > max) return `Use at most ${max} ${noun}`;
+    return null;
+}
+
+// How slider answers earn points: only the exact value, anything within the tolerance,
+// or credit falling linearly from the exact value to nothing at the tolerance
+export const SLIDER_SCORING = ['EXACT', 'TOLERANCE', 'DECAY'] as const;
+
+// Settings for question types that need more than options and a single correct index.
+// Stored in Question.config and validated against the schema for the question's type.
+const multiSelectConfigSchema = z.object({
+    correctOptionIndexes: z.array(z.number().int().min(0), 'Mark the correct options')
+        .min(1, 'Mark at least one correct option'),
+    partialCredit: z.boolean().default(false) // otherwise all-or-nothing
+});
+
+const typeInConfigSchema = z.object({
+    acceptedAnswers: z.array(z.string().trim()
+        .min(1, 'Accepted answers can\'t be empty')
+        .max(QUIZ_LIMITS.typedAnswerLength, `Accepted answers must be at most ${QUIZ_LIMITS.typedAnswerLength} characters`), 'List the accepted answers')
+        .min(1, 'Add at least one accepted answer')
+        .max(QUIZ_LIMITS.maxAcceptedAnswers, `Use at most ${QUIZ_LIMITS.maxAcceptedAnswers} accepted answers`),
+    // Differences that don't make an answer wrong
+    ignoreCase: z.boolean().default(true),
+    ignoreAccents: z.boolean().default(true),
+    ignoreWhitespace: z.boolean().default(true),
+    maxTypos: z.number('Typo tolerance must be a number').int()
+        .min(0, 'Typo tolerance can\'t be negative')
+        .max(QUIZ_LIMITS.maxTypos, `Allow at most ${QUIZ_LIMITS.maxTypos} typos`)
+        .default(0)
+});
+
+const sliderConfigSchema = z.object({
+    min: z.number('Minimum must be a number'),
+    max: z.number('Maximum must be a number'),
+    step: z.number('Step must be a number').positive('Step must be greater than 0'),
+    correctValue: z.number('Set the correct value'),
+    scoring: z.enum(SLIDER_SCORING, 'Unknown scoring mode').default('TOLERANCE'),
+    tolerance: z.number('Tolerance must be a number').min(0, 'Tolerance can\'t be negative').default(0),
+    unit: z.string().trim().max(QUIZ_LIMITS.unitLength, `Units must be at most ${QUIZ_LIMITS.unitLength} characters`).default('')
+});
+
+// Options are the items in the order players see them; correctOrder lists their indexes in sequence
+const orderingConfigSchema = z.object({
+    correctOrder: z.array(z.number().int().min(0), 'Set the correct order'),
+    partialCredit: z.boolean().default(false) // credit for each item in the right place
+});
+
+const unscoredConfigSchema = z.object({
+    participationPoints: z.number('Participation points must be a number').int()
+        .min(0, 'Participation points can\'t be negative')
+        .max(QUIZ_LIMITS.maxParticipationPoints, `Give at most ${QUIZ_LIMITS.maxParticipationPoints} participation points`)
+        .default(0)
+}).default({ participationPoints: 0 });
+
+export type MultiSelectConfig = z.infer<typeof multiSelectConfigSchema>;
+export type TypeInConfig = z.infer<typeof typeInConfigSchema>;
+export type SliderConfig = z.infer<typeof sliderConfigSchema>;
+export type OrderingConfig = z.infer<typeof orderingConfigSchema>;
+export type UnscoredConfig = z.infer<typeof unscoredConfigSchema>;
+export type QuestionConfig = MultiSelectConfig | TypeInConfig | SliderConfig | OrderingConfig | UnscoredConfig;
+
+// What players need to draw the slider, without giving the answer away
+export type SliderRange = Pick<SliderConfig, 'min' | 'max' | 'step' | 'unit'>;
+
+// Clears floating point noise left by steps like 0.1
+export function roundSliderValue(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
+
+// Whether a value is one the slider can land on, allowing for floating point error
+export function isOnSliderStep(value: number, range: Pick<SliderConfig, 'min' | 'step'>): boolean {
+    const steps = (value - range.min) / range.step;
+    return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+const CONFIG_SCHEMAS: Partial<Record<QuestionType, z.ZodType<QuestionConfig>>> = {
+    MULTI_SELECT: multiSelectConfigSchema,
+    TYPE_IN: typeInConfigSchema,
+    SLIDER: sliderConfigSchema,
+    ORDERING: orderingConfigSchema,
+    POLL: unscoredConfigSchema,
+    WORD_CLOUD: unscoredConfigSchema
+};
+
+export const questionSchema = z.object({
+    id: z.string().min(1).optional(), // Sent back for questions that are already saved, so they keep their id
+    text: z.string().trim()
+        .min(1, 'Question text is required')
+        .max(QUIZ_LIMITS.questionLength, `Question text must be at most ${QUIZ_LIMITS.questionLength} characters`),
+    type: z.enum(QUESTION_TYPES, 'Unknown question type').default('MCQ'),
+    timeLimit: z.number('Time limit must be a number').int()
+        .min(QUIZ_LIMITS.minTimeLimit, `Time limit must be at least ${QUIZ_LIMITS.minTimeLimit} seconds`)
+        .max(QUIZ_LIMITS.maxTimeLimit, `Time limit must be at most ${QUIZ_LIMITS.maxTimeLimit} seconds`)
+        .default(20),
+    options: z.array(z.string().trim()
+        .min(1, 'Option text is required')
+        .max(QUIZ_LIMITS.optionLength, `Options must be at most ${QUIZ_LIMITS.optionLength} characters`))
+        .default([]),
+    // Only single-answer types need one; the others store 0
+    correctOptionIndex: z.number('Pick the correct answer').int().min(0, 'Pick the correct answer').optional(),
+    config: z.unknown().optional(),
+    imageId: z.string().min(1).nullable().default(null),
+    optionImageIds: z.array(z.string()).default([]),
+    showImagesToPlayers: z.boolean().default(false),
+    pointsMode: z.enum(POINTS_MODES, 'Unknown points setting').default('STANDARD'),
+    speedBonus: z.boolean().default(true)
+}).refine(question => optionCountError(question) === null, {
+    path: ['options'],
+    error: issue => optionCountError(issue.input as { type: QuestionType; options: string[] }) ?? undefined,
+    // Checked even when other fields are invalid, like the rest of the field errors
+    when: payload => Array.isArray((payload.value as { options?: unknown }).options)
+}).superRefine((question, ctx) => {
+    if (SINGLE_ANSWER_TYPES.includes(question.type)) {
+        if (question.correctOptionIndex === undefined) {
+            ctx.addIssue({ code: 'custom', path: ['correctOptionIndex'], message: 'Pick the correct answer' });
+        } else if (question.correctOptionIndex >= question.options.length) {
+            ctx.addIssue({ code: 'custom', path: ['correctOptionIndex'], message: 'The correct answer must be one of the options' });
+        }
+    }
+    if (question.type === 'TRUE_FALSE' && question.options.join('|') !== TRUE_FALSE_OPTIONS.join('|')) {
+        ctx.addIssue({ code: 'custom', path: ['options'], message: 'True/False questions must have the options True and False' });
+    }
+    if (question.optionImageIds.length > 0) {
+        if (!hasOptionImages(question.type)) {
+            ctx.addIssue({ code: 'custom', path: ['optionImageIds'], message: 'This question type doesn\'t use option images' });
+        } else if (question.optionImageIds.length !== question.options.length) {
+            ctx.addIssue({ code: 'custom', path: ['optionImageIds'], message: 'Give one image per option, or leave them all out' });
+        }
+    }
+
+    const configSchema = CONFIG_SCHEMAS[question.type];
+    if (!configSchema) return;
+    const config = configSchema.safeParse(question.config);
+    if (!config.success) {
+        config.error.issues.forEach(issue => {
+            ctx.addIssue({ code: 'custom', path: ['config', ...issue.path], message: issue.message });
+        });
+        return;
+    }
+
+    if (question.type === 'MULTI_SELECT') {
+        const indexes = (config.data as MultiSelectConfig).correctOptionIndexes;
+        if (indexes.some(index => index >= question.options.length)) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'correctOptionIndexes'], message: 'Correct answers must be among the options' });
+        }
+        if (new Set(indexes).size !== indexes.length) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'correctOptionIndexes'], message: 'Each correct option can only be marked once' });
+        }
+    }
+
+    if (question.type === 'ORDERING') {
+        const { correctOrder } = config.data as OrderingConfig;
+        const isPermutation = correctOrder.length === question.options.length
+            && question.options.every((_, index) => correctOrder.includes(index));
+        if (!isPermutation) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'correctOrder'], message: 'The correct order must place every item exactly once' });
+        }
+    }
+
+    if (question.type === 'SLIDER') {
+        const slider = config.data as SliderConfig;
+        if (slider.min >= slider.max) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'max'], message: 'Maximum must be greater than the minimum' });
+            return;
+        }
+        if ((slider.max - slider.min) / slider.step > QUIZ_LIMITS.maxSliderSteps) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'step'], message: `The slider can have at most ${QUIZ_LIMITS.maxSliderSteps} steps` });
+        }
+        if (slider.correctValue < slider.min || slider.correctValue > slider.max || !isOnSliderStep(slider.correctValue, slider)) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'correctValue'], message: 'The correct value must be a step on the slider' });
+        }
+        if (slider.scoring === 'DECAY' && slider.tolerance <= 0) {
+            ctx.addIssue({ code: 'custom', path: ['config', 'tolerance'], message: 'Decaying scores need a tolerance above 0' });
+        }
+    }
+}).transform(question => ({
+    ...question,
+    correctOptionIndex: question.correctOptionIndex ?? 0,
+    config: CONFIG_SCHEMAS[question.type]?.parse(question.config) ?? null,
+    optionImageIds: question.optionImageIds.some(id => id) ? question.optionImageIds : []
+}));
+
+export const quizSchema = z.object({
+    title: z.string('Title is required').trim()
+        .min(1, 'Title is required')
+        .max(QUIZ_LIMITS.titleLength, `Title must be at most ${QUIZ_LIMITS.titleLength} characters`),
+    questions: z.array(questionSchema, 'Questions are required')
+        .min(1, 'Add at least one question')
+        .max(QUIZ_LIMITS.maxQuestions, `A quiz can have at most ${QUIZ_LIMITS.maxQuestions} questions`)
+});
+
+export type QuizInput = z.infer<typeof quizSchema>;
+
+// A single problem, addressed by a dotted path such as "questions.2.options.1"
+export interface QuizIssue {
+    path: string;
+    message: string;
+}
+
+export function parseQuiz(body: unknown): { success: true; data: QuizInput } | { success: false; issues: QuizIssue[] } {
+    const result = quizSchema.safeParse(body);
+    if (result.success) return { success: true, data: result.data };
+
+    return {
+        success: false,
+        issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    };
+}
+
+// Keeps the first message for each path, which is what the editor shows next to the field
+export function issuesByPath(issues: QuizIssue[]): Record<string, string> {
+    const errors: Record<string, string> = {};
+    issues.forEach(issue => {
+        if (!(issue.path in errors)) errors[issue.path] = issue.message;
+    });
+    return errors;
+}
@@ -0,0 +1,11 @@
+// Kept free of server-only imports so the proxy can use it
+export const SESSION_COOKIE = 'vibehoot_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+export const sessionCookieOptions = {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+};
@@ -0,0 +1,202 @@
+import ExcelJS from 'exceljs';
+import { prisma } from './prisma';
+import { AnswerResponse, pickedOptions } from './grading';
+import { revisionQuestions } from './quiz-revisions';
+import { isScored, QuestionType } from './quiz-schema';
+
+export interface ReportAnswer {
+    optionIndexes: number[];
+    optionText: string;
+    correct: boolean;
+    points: number;
+    responseTimeMs: number;
+}
+
+export interface ReportQuestion {
+    index: number;
+    text: string;
+    answerCount: number;
+    correctCount: number;
+    scored: boolean; // polls and word clouds have no correct answer
+    correctRate: number | null; // share of players in the session who answered correctly, null when unscored
+}
+
+export interface ReportPlayer {
+    id: string;
+    nickname: string;
+    rank: number | null;
+    score: number;
+    correctCount: number;
+    answeredCount: number;
+    accuracy: number; // correct answers over scored questions asked
+    answers: (ReportAnswer | null)[]; // indexed by question, null when unanswered
+}
+
+export interface SessionReport {
+    session: {
+        id: string;
+        joinCode: string;
+        quizTitle: string;
+        revisionNumber: number | null; // of the quiz revision the game was played with
+        status: string;
+        mode: string;
+        closesAt: Date | null; // assignments only
+        startedAt: Date | null;
+        endedAt: Date | null;
+    };
+    questions: ReportQuestion[];
+    players: ReportPlayer[];
+}
+
+function answerText(response: AnswerResponse, picked: number[], options: string[]): string {
+    if (response.text !== undefined) return response.text.trim();
+    if (response.value !== undefined) return String(response.value);
+    if (response.order) return response.order.map(index => options[index] ?? `Item ${index + 1}`).join(' > ');
+    return picked.map(index => options[index] ?? `Option ${index + 1}`).join(', ');
+}
+
+// Builds the post-game report from persisted data, or null if the session isn't the host's
+export async function buildSessionReport(sessionId: string, hostId: string): Promise<SessionReport | null> {
+    const session = await prisma.session.findFirst({
+        where: { id: sessionId, hostId },
+        include: {
+            quiz: { include: { questions: { orderBy: { order: 'asc' } } } },
+            revision: true,
+            players: { include: { answers: true } }
+        }
+    });
+    if (!session) return null;
+
+    // Games from before revisions existed fall back to the quiz as it is now
+    const playedQuestions = session.revision ? revisionQuestions(session.revision) : session.quiz.questions;
+
+    // Answers keep the question text they were given for, in case the quiz was edited since
+    const questionTexts = new Map<number, string>();
+    playedQuestions.forEach((q, index) => questionTexts.set(index, q.text));
+    session.players.forEach(p => p.answers.forEach(a => questionTexts.set(a.questionIndex, a.questionText)));
+    const questionCount = questionTexts.size > 0 ? Math.max(...questionTexts.keys()) + 1 : 0;
+    // Unscored answers are never correct, so they stay out of accuracy and correct rates
+    const scored = Array.from({ length: questionCount }, (_, index) => {
+        const type = playedQuestions[index]?.type;
+        return !type || isScored(type as QuestionType);
+    });
+    const scoredCount = scored.filter(Boolean).length;
+
+    const players: ReportPlayer[] = session.players.map(player => {
+        const answers: (ReportAnswer | null)[] = Array.from({ length: questionCount }, () => null);
+        player.answers.forEach(a => {
+            // Older answers only stored the single option index
+            const response = (a.response as AnswerResponse | null) ?? { optionIndex: a.optionIndex ?? undefined };
+            const picked = pickedOptions(response);
+            answers[a.questionIndex] = {
+                optionIndexes: picked,
+                optionText: answerText(response, picked, a.questionOptions.length > 0
+                    ? a.questionOptions
+                    : playedQuestions[a.questionIndex]?.options ?? []),
+                correct: a.correct,
+                points: a.points,
+                responseTimeMs: a.responseTimeMs
+            };
+        });
+        const correctCount = player.answers.filter(a => a.correct).length;
+
+        return {
+            id: player.id,
+            nickname: player.nickname,
+            rank: player.rank,
+            score: player.score,
+            correctCount,
+            answeredCount: player.answers.length,
+            accuracy: scoredCount > 0 ? correctCount / scoredCount : 0,
+            answers
+        };
+    }).sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || b.score - a.score);
+
+    const questions: ReportQuestion[] = Array.from({ length: questionCount }, (_, index) => {
+        const answers = players.map(p => p.answers[index]).filter((a): a is ReportAnswer => a !== null);
+        const correctCount = answers.filter(a => a.correct).length;
+        return {
+            index,
+            text: questionTexts.get(index) ?? `Question ${index + 1}`,
+            answerCount: answers.length,
+            correctCount,
+            scored: scored[index],
+            correctRate: !scored[index] ? null : players.length > 0 ? correctCount / players.length : 0
+        };
+    });
+
+    return {
+        session: {
+            id: session.id,
+            joinCode: session.joinCode,
+            quizTitle: session.quiz.title,
+            revisionNumber: session.revision?.number ?? null,
+            status: session.status,
+            mode: session.mode,
+            closesAt: session.closesAt,
+            startedAt: session.startedAt,
+            endedAt: session.endedAt
+        },
+        questions,
+        players
+    };
+}
+
+const percent = (value: number) => Math.round(value * 100);
+
+// One row per player: totals, then answer / correct / points for each question
+function playerRows(report: SessionReport): (string | number)[][] {
+    const header: string[] = ['Rank', 'Nickname', 'Score', 'Correct', 'Answered', 'Accuracy %'];
+    report.questions.forEach(q => {
+        header.push(`Q${q.index + 1} answer`, `Q${q.index + 1} correct`, `Q${q.index + 1} points`);
+    });
+
+    const rows = report.players.map(p => {
+        const row: (string | number)[] = [p.rank ?? '', p.nickname, p.score, p.correctCount, p.answeredCount, percent(p.accuracy)];
+        p.answers.forEach(a => {
+            row.push(a ? a.optionText : '', a ? (a.correct ? 'yes' : 'no') : '', a ? a.points : 0);
+        });
+        return row;
+    });
+
+    return [header, ...rows];
+}
+
+function questionRows(report: SessionReport): (string | number)[][] {
+    return [
+        ['Question', 'Text', 'Answered', 'Correct', 'Correct %'],
+        ...report.questions.map(q => [q.index + 1, q.text, q.answerCount, q.correctCount, q.correctRate === null ? '' : percent(q.correctRate)])
+    ];
+}
+
+// Nicknames and question text are user input; keep spreadsheets from evaluating them as formulas
+function sanitizeCell(value: string | number): string | number {
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(value)) return `'${value}`;
+    return value;
+}
+
+function csvCell(value: string | number): string {
+    const text = String(sanitizeCell(value));
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function reportToCsv(report: SessionReport): string {
+    return playerRows(report).map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export async function reportToXlsx(report: SessionReport): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const addSheet = (name: string, rows: (string | number)[][]) => {
+        const sheet = workbook.addWorksheet(name);
+        rows.forEach(row => sheet.addRow(row.map(sanitizeCell)));
+        sheet.getRow(1).font = { bold: true };
+        sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    };
+
+    addSheet('Players', playerRows(report));
+    addSheet('Questions', questionRows(report));
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+}
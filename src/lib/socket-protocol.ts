@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import type {
+    HostSnapshot, LeaderboardEntry, PlayerQuestion, PlayerSnapshot, Question, QuestionImages, QuestionResults,
+    TeamLeaderboardEntry
+} from './game-engine';
+import { QUIZ_LIMITS } from './quiz-schema';
+import type { QuestionType, SliderRange } from './quiz-schema';
+import type { ScoreBreakdown } from './grading';
+
+// The contract between server.ts and the browser clients. Shared by both sides, so this
+// module must only import types from server code.
+
+const joinCode = z.string().regex(/^\d{6}$/, 'Join code must be 6 digits');
+
+const hostControl = z.object({
+    joinCode,
+    hostToken: z.string().min(1)
+});
+
+// Average keeps big and small teams comparable
+export const TEAM_SCORING = ['AVERAGE', 'SUM'] as const;
+
+export const TEAM_LIMITS = {
+    minTeams: 2,
+    maxTeams: 6,
+    nameLength: 20
+};
+
+const teamSettings = z.object({
+    names: z.array(z.string().trim().min(1, 'Team names are required').max(TEAM_LIMITS.nameLength))
+        .min(TEAM_LIMITS.minTeams)
+        .max(TEAM_LIMITS.maxTeams)
+        .refine(names => new Set(names).size === names.length, 'Team names must be different'),
+    scoring: z.enum(TEAM_SCORING),
+    choice: z.boolean() // players may switch teams in the lobby, otherwise they stay where they were balanced
+});
+
+// Chosen by the host when creating a game; teams are referred to by their index in names
+export type TeamSettings = z.infer<typeof teamSettings>;
+
+// Inbound payloads are untrusted; the server validates every one against these
+export const clientPayloadSchemas = {
+    create_game: z.object({ quizId: z.string().min(1), teams: teamSettings.optional() }),
+    // Another of the host's screens joining their game, e.g. the projector display or a phone controller
+    watch_game: z.object({ joinCode }),
+    // The device id is generated and kept by the player's browser; bans are by device
+    join_game: z.object({ joinCode, nickname: z.string().trim().min(1).max(20), deviceId: z.string().min(1).max(64) }),
+    rejoin_game: z.object({ joinCode, playerId: z.string().min(1), playerToken: z.string().min(1) }),
+    choose_team: z.object({ joinCode, team: z.number().int().min(0) }),
+    next_assignment_question: z.object({ joinCode }),
+    start_game: hostControl,
+    next_question: hostControl,
+    // Which answer field is required depends on the question type; the engine checks that
+    submit_answer: z.object({
+        joinCode,
+        optionIndex: z.number().int().min(0).optional(),
+        optionIndexes: z.array(z.number().int().min(0)).max(QUIZ_LIMITS.maxOptions).optional(),
+        text: z.string().max(QUIZ_LIMITS.typedAnswerLength).optional(),
+        value: z.number().optional(),
+        order: z.array(z.number().int().min(0)).max(QUIZ_LIMITS.maxOrderingItems).optional()
+    }),
+    show_results: hostControl,
+    get_leaderboard: hostControl,
+    kick_player: hostControl.extend({ playerId: z.string().min(1), ban: z.boolean() })
+};
+
+export type ClientEvent = keyof typeof clientPayloadSchemas;
+export type ClientPayload<E extends ClientEvent> = z.infer<typeof clientPayloadSchemas[E]>;
+
+export interface PayloadIssue {
+    path: string;
+    message: string;
+}
+
+export interface ErrorResponse {
+    success: false;
+    error: string;
+    issues?: PayloadIssue[];
+}
+
+export type AckResponse<T> = ({ success: true } & T) | ErrorResponse;
+
+// Sent to every client in the room when a question opens; never includes the answer
+export interface QuestionStart extends QuestionImages {
+    questionIndex: number;
+    totalQuestions: number;
+    type: QuestionType;
+    text: string;
+    options: string[];
+    slider?: SliderRange;
+    timeLimit: number;
+    deadline: number; // server epoch ms
+    serverTime: number; // lets clients correct for clock skew
+}
+
+// Slider answers aren't right or wrong, so they report how far off they were instead.
+// Unscored answers (polls, word clouds) get no feedback beyond any participation points.
+interface ScoredResult {
+    score: number;
+    streak: number;
+    breakdown: ScoreBreakdown;
+}
+
+export type AnswerResult =
+    | ScoredResult & { correct: boolean }
+    | ScoredResult & { distance: number }
+    | { score: number; scored: false };
+
+export function toAnswerResult(grade: {
+    correct: boolean;
+    score: number;
+    distance?: number;
+    scored: boolean;
+    streak: number;
+    breakdown: ScoreBreakdown;
+}): AnswerResult {
+    if (!grade.scored) return { score: grade.score, scored: false };
+    const { score, streak, breakdown } = grade;
+    if (grade.distance !== undefined) return { score, streak, breakdown, distance: grade.distance };
+    return { score, streak, breakdown, correct: grade.correct };
+}
+
+// Players as the host's lobby lists them
+export type LobbyPlayer = Pick<LeaderboardEntry, 'id' | 'nickname' | 'score' | 'team'>;
+
+// Team games rank the teams alongside the players; null otherwise
+export interface Standings {
+    leaderboard: LeaderboardEntry[];
+    teamLeaderboard: TeamLeaderboardEntry[] | null;
+}
+
+// Sent only to the host's screens when a question opens; unlike QuestionStart it includes the answer
+export interface HostQuestion {
+    question: Question;
+    questionIndex: number;
+    totalQuestions: number;
+    deadline: number;
+    serverTime: number;
+}
+
+export type NextQuestionAck =
+    | { ended?: false } & HostQuestion
+    | { ended: true; leaderboard: LeaderboardEntry[]; teamLeaderboard: TeamLeaderboardEntry[] | null; sessionId: string };
+
+export interface ClientAckData {
+    create_game: { joinCode: string; hostToken: string };
+    watch_game: { hostToken: string; snapshot: HostSnapshot };
+    join_game: { playerId: string; playerToken: string; snapshot: PlayerSnapshot };
+    rejoin_game: { snapshot: PlayerSnapshot };
+    choose_team: object;
+    next_assignment_question: { question: PlayerQuestion | null }; // null once the player has answered them all
+    start_game: object;
+    next_question: NextQuestionAck;
+    submit_answer: AnswerResult;
+    show_results: QuestionResults;
+    get_leaderboard: Standings;
+    kick_player: object;
+}
+
+export type ClientToServerEvents = {
+    [E in ClientEvent]: (payload: ClientPayload<E>, ack: (response: AckResponse<ClientAckData[E]>) => void) => void;
+};
+
+export interface ServerToClientEvents {
+    player_joined: (player: LobbyPlayer) => void;
+    player_reconnected: (player: LobbyPlayer) => void;
+    player_disconnected: (payload: { playerId: string }) => void;
+    player_removed: (payload: { playerId: string }) => void;
+    kicked: (payload: { banned: boolean }) => void; // only to the removed player's device
+    team_changed: (payload: { playerId: string; team: number }) => void;
+    game_started: () => void;
+    question_start: (question: QuestionStart) => void;
+    host_question_start: (question: HostQuestion) => void;
+    question_results: (results: QuestionResults) => void;
+    answer_count_update: (payload: { answerCount: number; totalPlayers: number }) => void;
+    live_results: (results: QuestionResults) => void; // unscored questions only, after each answer
+    answer_result: (result: AnswerResult) => void;
+    leaderboard_update: (payload: Standings) => void;
+    game_ended: (payload: Standings) => void;
+}
+
+export type InterServerEvents = Record<string, never>;
+
+// Per-socket state set by the auth middleware and the join handlers
+export interface SocketData {
+    userId: string | null;
+    joinCode?: string;
+    playerId?: string;
+}
+
+export class PayloadValidationError extends Error {
+    constructor(public event: ClientEvent, public issues: PayloadIssue[]) {
+        super(`Invalid ${event} payload`);
+        this.name = 'PayloadValidationError';
+    }
+}
+
+export function parsePayload<E extends ClientEvent>(event: E, payload: unknown): ClientPayload<E> {
+    const result = clientPayloadSchemas[event].safeParse(payload);
+    if (!result.success) {
+        throw new PayloadValidationError(event, result.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message
+        })));
+    }
+    return result.data as ClientPayload<E>;
+}
+
+export function toErrorResponse(e: unknown): ErrorResponse {
+    if (e instanceof PayloadValidationError) {
+        return { success: false, error: e.message, issues: e.issues };
+    }
+    return { success: false, error: e instanceof Error ? e.message : 'Unexpected error' };
+}
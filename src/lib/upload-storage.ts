@@ -0,0 +1,42 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Where uploaded files are kept. Everything else only deals in upload ids, so moving
+// uploads off the local disk (e.g. to object storage) means adding another implementation.
+export interface UploadStorage {
+    save(key: string, data: Buffer): Promise<void>;
+    read(key: string): Promise<Buffer | null>; // null when there is no such file
+    remove(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements UploadStorage {
+    constructor(private directory: string) {}
+
+    // Keys are upload ids; anything else could point outside the directory
+    private filePath(key: string): string {
+        if (!/^[a-z0-9]+$/i.test(key)) throw new Error("Invalid upload key");
+        return path.join(this.directory, key);
+    }
+
+    async save(key: string, data: Buffer): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.filePath(key), data);
+    }
+
+    async read(key: string): Promise<Buffer | null> {
+        try {
+            return await readFile(this.filePath(key));
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw e;
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        await rm(this.filePath(key), { force: true });
+    }
+}
+
+export const uploadStorage: UploadStorage = new LocalDiskStorage(
+    process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')
+);
@@ -0,0 +1,101 @@
+import { prisma } from './prisma';
+import { uploadStorage } from './upload-storage';
+import type { QuizIssue } from './quiz-schema';
+
+export const UPLOAD_LIMITS = {
+    maxBytes: 5 * 1024 * 1024
+};
+
+// Recognised by their first bytes, not by the name or type the browser claims.
+// SVG is left out on purpose since it can carry scripts.
+const IMAGE_SIGNATURES: { contentType: string; matches: (data: Buffer) => boolean }[] = [
+    { contentType: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    { contentType: 'image/jpeg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+    { contentType: 'image/gif', matches: data => ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1')) },
+    {
+        contentType: 'image/webp',
+        matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP'
+    }
+];
+
+// Uploads nothing refers to yet may belong to an editor that hasn't been saved, so they get this long
+const UNSAVED_UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+interface ImageRefs {
+    imageId: string | null;
+    optionImageIds: string[];
+}
+
+export function detectImageType(data: Buffer): string | null {
+    return IMAGE_SIGNATURES.find(signature => signature.matches(data))?.contentType ?? null;
+}
+
+export async function saveUpload(ownerId: string, data: Buffer, contentType: string): Promise<string> {
+    const upload = await prisma.upload.create({
+        data: { ownerId, contentType, size: data.length },
+        select: { id: true }
+    });
+    try {
+        await uploadStorage.save(upload.id, data);
+    } catch (e) {
+        await prisma.upload.delete({ where: { id: upload.id } });
+        throw e;
+    }
+    return upload.id;
+}
+
+export function referencedUploads(questions: ImageRefs[]): string[] {
+    const ids = questions.flatMap(q => [q.imageId ?? '', ...q.optionImageIds]);
+    return [...new Set(ids.filter(id => id))];
+}
+
+// Questions may only show images their author uploaded
+export async function uploadIssues(ownerId: string, questions: ImageRefs[]): Promise<QuizIssue[]> {
+    const ids = referencedUploads(questions);
+    if (ids.length === 0) return [];
+
+    const owned = await prisma.upload.findMany({ where: { id: { in: ids }, ownerId }, select: { id: true } });
+    const ownedIds = new Set(owned.map(upload => upload.id));
+
+    const issues: QuizIssue[] = [];
+    questions.forEach((q, index) => {
+        if (q.imageId && !ownedIds.has(q.imageId)) {
+            issues.push({ path: `questions.${index}.imageId`, message: 'Image not found' });
+        }
+        q.optionImageIds.forEach((id, oIndex) => {
+            if (id && !ownedIds.has(id)) {
+                issues.push({ path: `questions.${index}.optionImageIds.${oIndex}`, message: 'Image not found' });
+            }
+        });
+    });
+    return issues;
+}
+
+// Deletes the owner's uploads that no question or quiz revision uses any more: the released ones
+// straight away, the rest once they are past the grace period
+export async function removeOrphanedUploads(ownerId: string, released: string[]): Promise<void> {
+    const [questions, revisions] = await Promise.all([
+        prisma.question.findMany({
+            where: { quiz: { ownerId } },
+            select: { imageId: true, optionImageIds: true }
+        }),
+        prisma.quizRevision.findMany({
+            where: { quiz: { ownerId } },
+            select: { uploadIds: true }
+        })
+    ]);
+    const used = new Set([...referencedUploads(questions), ...revisions.flatMap(revision => revision.uploadIds)]);
+
+    const candidates = await prisma.upload.findMany({
+        where: {
+            ownerId,
+            OR: [{ id: { in: released } }, { createdAt: { lt: new Date(Date.now() - UNSAVED_UPLOAD_GRACE_MS) } }]
+        },
+        select: { id: true }
+    });
+    const orphans = candidates.map(upload => upload.id).filter(id => !used.has(id));
+    if (orphans.length === 0) return;
+
+    await prisma.upload.deleteMany({ where: { id: { in: orphans } } });
+    await Promise.all(orphans.map(id => uploadStorage.remove(id)));
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/session-cookie';
+
+// Cheap gate for host pages: only checks that a session cookie is present.
+// The API routes verify the session itself and scope every query to the owner.
+export function proxy(request: NextRequest) {
+    const { pathname } = request.nextUrl;
+    if (pathname === '/host/login') return NextResponse.next();
+
+    if (!request.cookies.get(SESSION_COOKIE)) {
+        const loginUrl = new URL('/host/login', request.url);
+        loginUrl.searchParams.set('next', pathname);
+        return NextResponse.redirect(loginUrl);
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: ['/host/:path*']
+};